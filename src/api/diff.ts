@@ -0,0 +1,185 @@
+/**
+ * Line diffs (Myers) and unified diff formatting
+ */
+
+// Beyond this many changed lines, skip the shortest-edit search and treat
+// the differing middle of the files as fully replaced
+const MAX_EDIT_DISTANCE = 2000;
+
+/**
+ * One line of a line diff: unchanged, removed or added
+ */
+export interface DiffLine {
+  op: " " | "-" | "+";
+  text: string;
+}
+
+function splitLines(text: string): string[] {
+  if (text === "") return [];
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+// Shortest edit script between a and b, or null when it exceeds MAX_EDIT_DISTANCE
+function myers(a: string[], b: string[]): DiffLine[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  search: for (let d = 0; d <= max; d++) {
+    if (d > MAX_EDIT_DISTANCE) return null;
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        trace.push(v.slice(offset - d, offset + d + 1));
+        break search;
+      }
+    }
+    trace.push(v.slice(offset - d, offset + d + 1));
+  }
+
+  // Walk back through the saved frontiers (trace[d] is indexed by k + d)
+  const lines: DiffLine[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d > 0; d--) {
+    const prev = trace[d - 1];
+    const at = (k: number) => prev[k + d - 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      lines.push({ op: " ", text: a[--x] });
+      y--;
+    }
+    if (x === prevX) {
+      lines.push({ op: "+", text: b[--y] });
+    } else {
+      lines.push({ op: "-", text: a[--x] });
+    }
+  }
+  while (x > 0 && y > 0) {
+    lines.push({ op: " ", text: a[--x] });
+    y--;
+  }
+
+  return lines.reverse();
+}
+
+/**
+ * Diff two texts line by line
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+
+  // Trim the common prefix and suffix before searching
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const middle = myers(midA, midB) ?? [
+    ...midA.map((text): DiffLine => ({ op: "-", text })),
+    ...midB.map((text): DiffLine => ({ op: "+", text })),
+  ];
+
+  return [
+    ...a.slice(0, start).map((text): DiffLine => ({ op: " ", text })),
+    ...middle,
+    ...a.slice(endA).map((text): DiffLine => ({ op: " ", text })),
+  ];
+}
+
+/**
+ * Added and removed line counts between two texts
+ */
+export function diffStat(oldText: string, newText: string): { additions: number; deletions: number } {
+  let additions = 0;
+  let deletions = 0;
+  for (const line of diffLines(oldText, newText)) {
+    if (line.op === "+") additions++;
+    else if (line.op === "-") deletions++;
+  }
+  return { additions, deletions };
+}
+
+/**
+ * Number of lines in a text, as counted by the diff functions
+ */
+export function lineCount(text: string): number {
+  return splitLines(text).length;
+}
+
+/**
+ * Format a unified diff (empty string when the texts are equal)
+ */
+export function unifiedDiff(
+  oldName: string,
+  newName: string,
+  oldText: string,
+  newText: string,
+  context = 3
+): string {
+  const lines = diffLines(oldText, newText);
+  const changes = lines.flatMap((line, i) => (line.op === " " ? [] : [i]));
+  if (changes.length === 0) return "";
+
+  const out = [`--- ${oldName}`, `+++ ${newName}`];
+
+  // Group changes whose context would overlap into one hunk
+  let group = [changes[0]];
+  const groups: number[][] = [];
+  for (const i of changes.slice(1)) {
+    if (i - group[group.length - 1] > 2 * context) {
+      groups.push(group);
+      group = [];
+    }
+    group.push(i);
+  }
+  groups.push(group);
+
+  for (const g of groups) {
+    const from = Math.max(g[0] - context, 0);
+    const to = Math.min(g[g.length - 1] + context + 1, lines.length);
+
+    let oldStart = 1;
+    let newStart = 1;
+    for (const line of lines.slice(0, from)) {
+      if (line.op !== "+") oldStart++;
+      if (line.op !== "-") newStart++;
+    }
+
+    const hunk = lines.slice(from, to);
+    const oldCount = hunk.filter((l) => l.op !== "+").length;
+    const newCount = hunk.filter((l) => l.op !== "-").length;
+
+    // An empty side points at the line before the hunk
+    out.push(
+      `@@ -${oldCount === 0 ? oldStart - 1 : oldStart},${oldCount} +${newCount === 0 ? newStart - 1 : newStart},${newCount} @@`
+    );
+    out.push(...hunk.map((l) => `${l.op}${l.text}`));
+  }
+
+  return out.join("\n") + "\n";
+}
@@ -0,0 +1,192 @@
+import type { GrepOptions, MatchRange } from "../types.js";
+import { InvalidPatternError } from "../errors.js";
+
+const MAX_LINE_CHARS = 200;
+
+// Bytes inspected for NUL when deciding whether a file is binary (as ripgrep does)
+const BINARY_SNIFF_BYTES = 8000;
+
+/**
+ * A match found in one file, before source/file are attached
+ */
+export interface ContentMatch {
+  line: number;
+  content: string;
+  matches: MatchRange[];
+  endLine?: number;
+  before?: string[];
+  after?: string[];
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Compile a grep pattern from options, surfacing regex syntax errors as tagged errors
+ */
+export function compileGrepPattern(pattern: string, options: GrepOptions): RegExp {
+  let source = options.fixedStrings ? escapeRegExp(pattern) : pattern;
+  if (options.wordRegexp) source = `\\b(?:${source})\\b`;
+
+  const flags = `g${options.caseSensitive ? "" : "i"}${options.multiline ? "m" : ""}`;
+  try {
+    return new RegExp(source, flags);
+  } catch (e) {
+    throw new InvalidPatternError(pattern, e instanceof Error ? e.message : String(e));
+  }
+}
+
+export function isBinary(content: string): boolean {
+  return content.slice(0, BINARY_SNIFF_BYTES).includes("\0");
+}
+
+function clip(line: string): string {
+  return line.length > MAX_LINE_CHARS ? line.slice(0, MAX_LINE_CHARS) : line;
+}
+
+/**
+ * Find all match ranges of a global regex in one line
+ */
+function matchRanges(regex: RegExp, line: string): MatchRange[] {
+  const ranges: MatchRange[] = [];
+  regex.lastIndex = 0;
+  let m: RegExpExecArray | null;
+  while ((m = regex.exec(line)) !== null) {
+    ranges.push({ start: m.index + 1, end: m.index + m[0].length + 1 });
+    if (m[0].length === 0) regex.lastIndex++;
+  }
+  return ranges;
+}
+
+function withContext(
+  match: ContentMatch,
+  lines: string[],
+  startIdx: number,
+  endIdx: number,
+  before: number,
+  after: number
+): ContentMatch {
+  if (before > 0) {
+    match.before = lines.slice(Math.max(startIdx - before, 0), startIdx).map(clip);
+  }
+  if (after > 0) {
+    match.after = lines.slice(endIdx + 1, endIdx + 1 + after).map(clip);
+  }
+  return match;
+}
+
+/**
+ * Search file content line by line.
+ * Stops after `limit` matching lines (pass Infinity for counts).
+ */
+function searchLines(
+  content: string,
+  regex: RegExp,
+  limit: number,
+  before: number,
+  after: number
+): ContentMatch[] {
+  const lines = content.split("\n");
+  const results: ContentMatch[] = [];
+
+  for (let i = 0; i < lines.length && results.length < limit; i++) {
+    const ranges = matchRanges(regex, lines[i]);
+    if (ranges.length === 0) continue;
+
+    results.push(
+      withContext(
+        { line: i + 1, content: clip(lines[i]), matches: ranges },
+        lines,
+        i,
+        i,
+        before,
+        after
+      )
+    );
+  }
+
+  return results;
+}
+
+/**
+ * Search the whole content so matches may span lines
+ */
+function searchMultiline(
+  content: string,
+  regex: RegExp,
+  limit: number,
+  before: number,
+  after: number
+): ContentMatch[] {
+  const lines = content.split("\n");
+  const lineStarts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === "\n") lineStarts.push(i + 1);
+  }
+
+  // Binary search for the line containing an offset (0-based)
+  const lineAt = (offset: number): number => {
+    let lo = 0;
+    let hi = lineStarts.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (lineStarts[mid] <= offset) lo = mid;
+      else hi = mid - 1;
+    }
+    return lo;
+  };
+
+  const results: ContentMatch[] = [];
+  regex.lastIndex = 0;
+  let m: RegExpExecArray | null;
+  while (results.length < limit && (m = regex.exec(content)) !== null) {
+    if (m[0].length === 0) {
+      regex.lastIndex++;
+      continue;
+    }
+
+    const startIdx = lineAt(m.index);
+    const endOffset = m.index + m[0].length - 1;
+    const endIdx = lineAt(endOffset);
+
+    results.push(
+      withContext(
+        {
+          line: startIdx + 1,
+          content: clip(lines.slice(startIdx, endIdx + 1).join("\n")),
+          matches: [
+            {
+              start: m.index - lineStarts[startIdx] + 1,
+              end: endOffset - lineStarts[endIdx] + 2,
+            },
+          ],
+          ...(endIdx !== startIdx ? { endLine: endIdx + 1 } : {}),
+        },
+        lines,
+        startIdx,
+        endIdx,
+        before,
+        after
+      )
+    );
+  }
+
+  return results;
+}
+
+/**
+ * Search one file's content according to grep options
+ */
+export function searchContent(
+  content: string,
+  regex: RegExp,
+  options: GrepOptions,
+  limit: number
+): ContentMatch[] {
+  const before = options.before ?? options.context ?? 0;
+  const after = options.after ?? options.context ?? 0;
+  return options.multiline
+    ? searchMultiline(content, regex, limit, before, after)
+    : searchLines(content, regex, limit, before, after);
+}
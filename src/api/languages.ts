@@ -0,0 +1,175 @@
+import { createRequire } from "node:module";
+import { extname } from "node:path";
+import { Lang, registerDynamicLanguage, type parse } from "@ast-grep/napi";
+import { LanguageUnavailableError } from "../errors.js";
+import { createLogger } from "../logger.js";
+
+const log = createLogger("languages");
+const require = createRequire(import.meta.url);
+
+// Built-in Lang or the name of a registered dynamic language
+type NapiLang = Parameters<typeof parse>[0];
+
+// Languages built into @ast-grep/napi
+const BUILTIN_LANGS: Record<string, Lang> = {
+  javascript: Lang.JavaScript,
+  typescript: Lang.TypeScript,
+  tsx: Lang.Tsx,
+  html: Lang.Html,
+  css: Lang.Css,
+};
+
+// Languages loaded from optional @ast-grep/lang-* parser packages
+const DYNAMIC_LANGS: Record<string, string> = {
+  python: "@ast-grep/lang-python",
+  rust: "@ast-grep/lang-rust",
+  go: "@ast-grep/lang-go",
+  java: "@ast-grep/lang-java",
+  ruby: "@ast-grep/lang-ruby",
+  c: "@ast-grep/lang-c",
+  cpp: "@ast-grep/lang-cpp",
+};
+
+// Extension → language mapping
+const EXT_LANG: Record<string, string> = {
+  ".js": "javascript",
+  ".mjs": "javascript",
+  ".cjs": "javascript",
+  ".jsx": "javascript",
+  ".ts": "typescript",
+  ".mts": "typescript",
+  ".cts": "typescript",
+  ".tsx": "tsx",
+  ".html": "html",
+  ".css": "css",
+  ".py": "python",
+  ".pyi": "python",
+  ".rs": "rust",
+  ".go": "go",
+  ".java": "java",
+  ".rb": "ruby",
+  ".c": "c",
+  ".h": "c",
+  ".cc": "cpp",
+  ".cpp": "cpp",
+  ".cxx": "cpp",
+  ".hh": "cpp",
+  ".hpp": "cpp",
+  ".hxx": "cpp",
+};
+
+// options.lang aliases → language
+const LANG_ALIASES: Record<string, string> = {
+  js: "javascript",
+  jsx: "javascript",
+  ts: "typescript",
+  py: "python",
+  python3: "python",
+  rs: "rust",
+  golang: "go",
+  rb: "ruby",
+  "c++": "cpp",
+  cxx: "cpp",
+  cc: "cpp",
+};
+
+interface ParserPackage {
+  libraryPath: string;
+  extensions: string[];
+  languageSymbol?: string;
+  metaVarChar?: string;
+  expandoChar?: string;
+}
+
+let dynamicLangs: { available: Set<string>; failures: Map<string, string> } | null = null;
+
+/**
+ * Load installed parser packages and register them with ast-grep.
+ * Runs once per worker; registration must happen in a single call.
+ */
+function loadDynamicLangs(): { available: Set<string>; failures: Map<string, string> } {
+  if (dynamicLangs) return dynamicLangs;
+
+  const registrations: Record<string, ParserPackage> = {};
+  const failures = new Map<string, string>();
+
+  for (const [lang, pkg] of Object.entries(DYNAMIC_LANGS)) {
+    try {
+      const parser = require(pkg) as ParserPackage;
+      registrations[lang] = {
+        libraryPath: parser.libraryPath,
+        extensions: parser.extensions,
+        languageSymbol: parser.languageSymbol,
+        metaVarChar: parser.metaVarChar,
+        expandoChar: parser.expandoChar,
+      };
+    } catch (e) {
+      const code = (e as NodeJS.ErrnoException).code;
+      failures.set(
+        lang,
+        code === "MODULE_NOT_FOUND"
+          ? `parser package ${pkg} is not installed`
+          : `parser package ${pkg} failed to load: ${e instanceof Error ? e.message : String(e)}`
+      );
+    }
+  }
+
+  if (Object.keys(registrations).length > 0) {
+    try {
+      registerDynamicLanguage(registrations);
+    } catch (e) {
+      const reason = `parser registration failed: ${e instanceof Error ? e.message : String(e)}`;
+      for (const lang of Object.keys(registrations)) failures.set(lang, reason);
+    }
+  }
+
+  const available = new Set(Object.keys(registrations).filter((l) => !failures.has(l)));
+  if (failures.size > 0) log.debug("parser packages unavailable", Object.fromEntries(failures));
+  dynamicLangs = { available, failures };
+  return dynamicLangs;
+}
+
+/**
+ * Canonical language names accepted by options.lang
+ */
+export function supportedLangs(): string[] {
+  return [...Object.keys(BUILTIN_LANGS), ...Object.keys(DYNAMIC_LANGS)];
+}
+
+/**
+ * Normalize a user-supplied language name or alias.
+ * Throws LanguageUnavailableError for unknown names.
+ */
+export function normalizeLang(name: string): string {
+  const lower = name.toLowerCase();
+  const lang = LANG_ALIASES[lower] ?? lower;
+  if (!(lang in BUILTIN_LANGS) && !(lang in DYNAMIC_LANGS)) {
+    throw new LanguageUnavailableError(
+      name,
+      `unknown language; supported: ${supportedLangs().join(", ")}`
+    );
+  }
+  return lang;
+}
+
+/**
+ * Language of a file, from its extension
+ */
+export function langForFile(filePath: string): string | undefined {
+  return EXT_LANG[extname(filePath).toLowerCase()];
+}
+
+/**
+ * Get the parser for a language, loading its package if needed.
+ * Throws LanguageUnavailableError when the parser cannot be loaded.
+ */
+export function requireParser(lang: string): NapiLang {
+  const builtin = BUILTIN_LANGS[lang];
+  if (builtin) return builtin;
+
+  const { available, failures } = loadDynamicLangs();
+  if (!available.has(lang)) {
+    throw new LanguageUnavailableError(lang, failures.get(lang) ?? "unknown language");
+  }
+  return lang;
+}
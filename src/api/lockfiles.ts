@@ -0,0 +1,707 @@
+import type { Registry } from "opensrc/dist/types.js";
+
+/**
+ * A dependency pinned by a lockfile
+ */
+export interface LockedDependency {
+  name: string;
+  version: string;
+  registry: Registry;
+  lockfile: string;
+  /** Declared by the project itself rather than pulled in by another dependency */
+  direct: boolean;
+  /** Why the dependency can't be fetched from its registry (git, URL, local or unpinned) */
+  unsupported?: string;
+}
+
+// Lockfiles read by sync, in order of preference within an ecosystem.
+// requirements.txt is only read when there is no poetry.lock.
+export const LOCKFILES = [
+  "package-lock.json",
+  "pnpm-lock.yaml",
+  "yarn.lock",
+  "Cargo.lock",
+  "poetry.lock",
+  "requirements.txt",
+];
+
+// Manifest declaring a lockfile's direct dependencies
+export const MANIFESTS: Record<string, string> = {
+  "package-lock.json": "package.json",
+  "pnpm-lock.yaml": "package.json",
+  "yarn.lock": "package.json",
+  "poetry.lock": "pyproject.toml",
+};
+
+// Dependency fields of package.json that get installed
+const NPM_DEPENDENCY_FIELDS = ["dependencies", "devDependencies", "optionalDependencies"];
+
+const SEMVER = /^\d+\.\d+\.\d+(?:[-+][0-9A-Za-z.+-]*)?$/;
+
+const NOT_FROM_REGISTRY: Record<Registry, string> = {
+  npm: "not from the npm registry",
+  pypi: "not from PyPI",
+  crates: "not from crates.io",
+};
+
+// Packages that only exist in the project: local paths, links and workspaces
+const LOCAL_PACKAGE = "local file, directory or workspace package";
+const PATCHED_PACKAGE = "patched by the project";
+
+type PackageJson = Record<string, Record<string, string> | undefined>;
+
+/**
+ * Dependencies pinned by a lockfile. `manifest` is the text of the
+ * lockfile's manifest (see MANIFESTS), used to tell direct dependencies.
+ */
+export function parseLockfile(file: string, text: string, manifest?: string): LockedDependency[] {
+  switch (file) {
+    case "package-lock.json":
+      return parsePackageLock(JSON.parse(text), manifest ? JSON.parse(manifest) : {});
+    case "pnpm-lock.yaml":
+      return parsePnpmLock(text);
+    case "yarn.lock":
+      return parseYarnLock(text, manifest ? JSON.parse(manifest) : {});
+    case "Cargo.lock":
+      return parseCargoLock(text);
+    case "poetry.lock":
+      return parsePoetryLock(text, manifest ?? "");
+    case "requirements.txt":
+      return parseRequirements(text);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Spec fetching a locked dependency (e.g. "zod@3.22.0", "pypi:requests==2.31.0")
+ */
+export function specFor(dep: Pick<LockedDependency, "name" | "version" | "registry">): string {
+  switch (dep.registry) {
+    case "npm":
+      return `${dep.name}@${dep.version}`;
+    case "pypi":
+      return `pypi:${dep.name}==${dep.version}`;
+    case "crates":
+      return `crates:${dep.name}@${dep.version}`;
+  }
+}
+
+/**
+ * Name as compared within a registry. PyPI names are case-insensitive
+ * and treat runs of "-", "_" and "." alike (PEP 503).
+ */
+export function normalizeName(registry: Registry | "repo", name: string): string {
+  return registry === "pypi" ? name.toLowerCase().replace(/[-_.]+/g, "-") : name;
+}
+
+/**
+ * Whether a dependency name matches any of the globs ("*" matches any run
+ * of characters, e.g. "@ai-sdk/*")
+ */
+export function matchesName(name: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => {
+    const source = pattern
+      .split("*")
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+      .join(".*");
+    return new RegExp(`^${source}$`).test(name);
+  });
+}
+
+function locked(
+  registry: Registry,
+  lockfile: string,
+  name: string,
+  version: string,
+  direct: boolean,
+  unsupported?: string
+): LockedDependency {
+  return { name, version, registry, lockfile, direct, ...(unsupported ? { unsupported } : {}) };
+}
+
+function declaredNpmDependencies(pkg: PackageJson): Record<string, string> {
+  return Object.assign({}, ...NPM_DEPENDENCY_FIELDS.map((field) => pkg[field] ?? {}));
+}
+
+// "npm:real-name@1.2.3" aliases install another package under a local name
+function unalias(name: string, version: string): { name: string; version: string } {
+  const alias = version.match(/^npm:(@?[^@]+)@(.+)$/);
+  return alias ? { name: alias[1], version: alias[2] } : { name, version };
+}
+
+// ── npm ─────────────────────────────────────────────────────────────────────
+
+interface PackageLockEntry {
+  name?: string;
+  version?: string;
+  resolved?: string;
+  link?: boolean;
+  dependencies?: Record<string, PackageLockEntry | string>;
+  devDependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+}
+
+interface PackageLock {
+  packages?: Record<string, PackageLockEntry>;
+  dependencies?: Record<string, PackageLockEntry>;
+}
+
+function parsePackageLock(lock: PackageLock, manifest: PackageJson): LockedDependency[] {
+  const file = "package-lock.json";
+  const deps: LockedDependency[] = [];
+
+  const unsupportedReason = (resolved: string | undefined, version: string) =>
+    /^(git|github:|https?:|file:)/.test(version) ||
+    (resolved !== undefined && /^(git|github:|file:)/.test(resolved))
+      ? NOT_FROM_REGISTRY.npm
+      : undefined;
+
+  // lockfileVersion 2/3: flat "node_modules/..." paths; other keys are workspaces
+  if (lock.packages) {
+    const workspaces = new Map<string, Record<string, string>>();
+    for (const [path, entry] of Object.entries(lock.packages)) {
+      if (!path.includes("node_modules/")) {
+        workspaces.set(path, declaredNpmDependencies(entry as PackageJson));
+      }
+    }
+    const declaredAnywhere = new Set([...workspaces.values()].flatMap((d) => Object.keys(d)));
+
+    for (const [path, entry] of Object.entries(lock.packages)) {
+      const at = path.lastIndexOf("node_modules/");
+      if (at === -1) continue;
+
+      const installedAs = path.slice(at + "node_modules/".length);
+      const parent = path.slice(0, at).replace(/\/$/, "");
+      // Hoisted workspace dependencies live in the root node_modules
+      const direct =
+        workspaces.has(parent) &&
+        (installedAs in (workspaces.get(parent) ?? {}) || (parent === "" && declaredAnywhere.has(installedAs)));
+
+      if (entry.link || entry.resolved?.startsWith("file:")) {
+        deps.push(locked("npm", file, entry.name ?? installedAs, "", direct, LOCAL_PACKAGE));
+        continue;
+      }
+      if (!entry.version) continue;
+      const { name, version } = unalias(entry.name ?? installedAs, entry.version);
+      deps.push(locked("npm", file, name, version, direct, unsupportedReason(entry.resolved, version)));
+    }
+    return deps;
+  }
+
+  // lockfileVersion 1: nested "dependencies"
+  const declared = declaredNpmDependencies(manifest);
+  const walk = (entries: Record<string, PackageLockEntry | string>, top: boolean) => {
+    for (const [installedAs, entry] of Object.entries(entries)) {
+      if (typeof entry === "string" || !entry.version) continue;
+      if (entry.version.startsWith("file:")) {
+        deps.push(locked("npm", file, installedAs, "", top && installedAs in declared, LOCAL_PACKAGE));
+        continue;
+      }
+      const { name, version } = unalias(installedAs, entry.version);
+      deps.push(
+        locked("npm", file, name, version, top && installedAs in declared, unsupportedReason(entry.resolved, version))
+      );
+      if (entry.dependencies) walk(entry.dependencies, false);
+    }
+  };
+  walk(lock.dependencies ?? {}, true);
+  return deps;
+}
+
+// ── pnpm ────────────────────────────────────────────────────────────────────
+
+type YamlMapping = { [key: string]: string | YamlMapping };
+
+/**
+ * Nested mappings of a YAML document, enough for pnpm lockfiles.
+ * Sequences are skipped and flow collections kept as strings.
+ */
+function parseYamlMappings(text: string): YamlMapping {
+  const root: YamlMapping = {};
+  const stack: { indent: number; node: YamlMapping }[] = [{ indent: -1, node: root }];
+
+  for (const line of text.split("\n")) {
+    const content = line.trimStart();
+    if (!content || content.startsWith("#") || content.startsWith("- ")) continue;
+    const indent = line.length - content.length;
+
+    const match = content.match(/^('[^']*'|"[^"]*"|.+?):(?:\s+(.*))?$/);
+    if (!match) continue;
+    const key = unquote(match[1]);
+    const value = match[2]?.trim();
+
+    while (stack[stack.length - 1].indent >= indent) stack.pop();
+    const parent = stack[stack.length - 1].node;
+    if (value) {
+      parent[key] = unquote(value);
+    } else {
+      const node: YamlMapping = {};
+      parent[key] = node;
+      stack.push({ indent, node });
+    }
+  }
+  return root;
+}
+
+function unquote(value: string): string {
+  return /^(['"]).*\1$/.test(value) ? value.slice(1, -1) : value;
+}
+
+// Package key: "zod@3.22.0" (v9), "/zod@3.22.0(peer@1.0.0)" (v6), "/zod/3.22.0_peer@1.0.0" (v5)
+function parsePnpmKey(key: string, v5: boolean): { name: string; version: string } | undefined {
+  const bare = key.replace(/^\//, "");
+  if (v5) {
+    const slash = bare.lastIndexOf("/");
+    if (slash <= 0) return undefined;
+    return { name: bare.slice(0, slash), version: bare.slice(slash + 1).replace(/_.*$/, "") };
+  }
+  const match = bare.match(/^(@?[^@/]+(?:\/[^@/]+)?)@([^(]+)/);
+  return match ? { name: match[1], version: match[2] } : undefined;
+}
+
+function parsePnpmLock(text: string): LockedDependency[] {
+  const file = "pnpm-lock.yaml";
+  const lock = parseYamlMappings(text);
+  const v5 = parseFloat(String(lock.lockfileVersion)) < 6;
+
+  // Direct dependencies of each importer (workspace project), or of the
+  // project itself in single-project lockfiles, as "name@version"
+  const direct = new Set<string>();
+  const importers = typeof lock.importers === "object" ? Object.values(lock.importers) : [lock];
+  for (const importer of importers) {
+    if (typeof importer !== "object") continue;
+    for (const field of NPM_DEPENDENCY_FIELDS) {
+      const declared = importer[field];
+      if (typeof declared !== "object") continue;
+      for (const [name, value] of Object.entries(declared)) {
+        const version = typeof value === "string" ? value : value.version;
+        if (typeof version !== "string") continue;
+        const resolved = unalias(name, version.replace(/[(_].*$/, ""));
+        direct.add(`${resolved.name}@${resolved.version}`);
+      }
+    }
+  }
+
+  const deps: LockedDependency[] = [];
+  const packages = typeof lock.packages === "object" ? lock.packages : {};
+  for (const [key, entry] of Object.entries(packages)) {
+    const info = typeof entry === "object" ? entry : {};
+    const parsed = parsePnpmKey(key, v5);
+    const name = typeof info.name === "string" ? info.name : parsed?.name;
+    const version = typeof info.version === "string" ? info.version : parsed?.version;
+    if (!name || !version) continue;
+
+    const resolution = typeof info.resolution === "string" ? info.resolution : "";
+    const local = resolution.includes("directory:");
+    const fromRegistry = SEMVER.test(version) && !/type: git|tarball:/.test(resolution);
+    deps.push(
+      locked(
+        "npm",
+        file,
+        name,
+        local ? "" : version,
+        direct.has(`${name}@${version}`),
+        local ? LOCAL_PACKAGE : fromRegistry ? undefined : NOT_FROM_REGISTRY.npm
+      )
+    );
+  }
+  return deps;
+}
+
+// ── yarn ────────────────────────────────────────────────────────────────────
+
+// Classic (v1) and Berry lockfiles: entries keyed by the descriptors they
+// satisfy ("zod@^3.22.0", "zod@npm:^3.22.0"), with an indented body
+function parseYarnLock(text: string, manifest: PackageJson): LockedDependency[] {
+  const file = "yarn.lock";
+  const declared = Object.entries(declaredNpmDependencies(manifest));
+  const deps: LockedDependency[] = [];
+
+  const flush = (descriptors: string[], body: Record<string, string>) => {
+    const version = body.version;
+    if (descriptors.length === 0 || !version) return;
+
+    // Berry records how the package was resolved, e.g. "zod@npm:3.22.0"
+    const resolution = body.resolution?.match(/^(@?[^@]+)@([a-z]+):/);
+    const descriptor = descriptors[0].match(/^(@?[^@]+)@(.*)$/);
+    if (!descriptor) return;
+    const range = descriptor[2];
+    // The root workspace is the project itself
+    if (body.resolution?.endsWith("@workspace:.")) return;
+
+    const { name } = resolution ? { name: resolution[1] } : unalias(descriptor[1], range);
+    const direct = declared.some(([dep, wanted]) =>
+      descriptors.some((d) => d === `${dep}@${wanted}` || d === `${dep}@npm:${wanted}`)
+    );
+    const protocol = resolution ? resolution[2] : range.match(/^(file|link|portal|workspace):/)?.[1];
+    let unsupported: string | undefined;
+    if (protocol === "patch") unsupported = PATCHED_PACKAGE;
+    else if (["workspace", "link", "portal", "file"].includes(protocol ?? "")) unsupported = LOCAL_PACKAGE;
+    else if (protocol ? protocol !== "npm" : !range.startsWith("npm:") && /^(git|github:|https?:)|\//.test(range)) {
+      unsupported = NOT_FROM_REGISTRY.npm;
+    }
+    deps.push(locked("npm", file, name, unsupported === LOCAL_PACKAGE ? "" : version, direct, unsupported));
+  };
+
+  let descriptors: string[] = [];
+  let body: Record<string, string> = {};
+  for (const line of text.split("\n")) {
+    if (!line.trim() || line.startsWith("#")) continue;
+    if (!line.startsWith(" ")) {
+      flush(descriptors, body);
+      descriptors = line
+        .replace(/:$/, "")
+        .split(",")
+        .map((d) => d.trim().replace(/^"|"$/g, ""))
+        .filter((d) => d !== "__metadata");
+      body = {};
+      continue;
+    }
+    // Only the entry's own fields, not nested "dependencies" blocks
+    const field = line.match(/^ {2}(\w+):?\s+"?([^"]*)"?$/);
+    if (field) body[field[1]] = field[2];
+  }
+  flush(descriptors, body);
+  return deps;
+}
+
+// ── Cargo ───────────────────────────────────────────────────────────────────
+
+/**
+ * Tables of a TOML document named `header` (e.g. "[[package]]"), as their
+ * top-level string and string-array fields
+ */
+function tomlTables(text: string, header: string): Record<string, string | string[]>[] {
+  const tables: Record<string, string | string[]>[] = [];
+  let current: Record<string, string | string[]> | undefined;
+  let array: string[] | undefined;
+
+  for (const raw of text.split("\n")) {
+    const line = raw.trim();
+    if (array) {
+      if (line.startsWith("]")) array = undefined;
+      else array.push(...[...line.matchAll(/"([^"]*)"/g)].map((m) => m[1]));
+      continue;
+    }
+    if (line.startsWith("[")) {
+      current = line === header ? {} : undefined;
+      if (current) tables.push(current);
+      continue;
+    }
+    if (!current) continue;
+
+    const field = line.match(/^([\w-]+)\s*=\s*(.*)$/);
+    if (!field) continue;
+    const [, key, value] = field;
+    if (value.startsWith("[")) {
+      current[key] = [...value.matchAll(/"([^"]*)"/g)].map((m) => m[1]);
+      if (!value.includes("]")) array = current[key] as string[];
+    } else {
+      current[key] = unquote(value);
+    }
+  }
+  return tables;
+}
+
+function parseCargoLock(text: string): LockedDependency[] {
+  const file = "Cargo.lock";
+  const packages = tomlTables(text, "[[package]]");
+
+  // Workspace members have no source; their dependencies are direct,
+  // listed as "name" or "name version" when several versions are locked
+  const direct = new Set<string>();
+  for (const pkg of packages) {
+    if (pkg.source || !Array.isArray(pkg.dependencies)) continue;
+    for (const dep of pkg.dependencies) {
+      const [name, version] = dep.split(" ");
+      direct.add(version ? `${name}@${version}` : name);
+    }
+  }
+
+  const deps: LockedDependency[] = [];
+  for (const pkg of packages) {
+    const { name, version, source } = pkg;
+    if (typeof name !== "string" || typeof version !== "string" || typeof source !== "string") continue;
+    const fromCratesIo = /crates\.io-index|index\.crates\.io/.test(source);
+    deps.push(
+      locked(
+        "crates",
+        file,
+        name,
+        version,
+        direct.has(name) || direct.has(`${name}@${version}`),
+        fromCratesIo ? undefined : NOT_FROM_REGISTRY.crates
+      )
+    );
+  }
+  return deps;
+}
+
+// ── Python ──────────────────────────────────────────────────────────────────
+
+// Leading name of a PEP 508 requirement ("requests[socks]>=2.31; ...")
+function requirementName(requirement: string): string | undefined {
+  return requirement.match(/^\s*([A-Za-z0-9][A-Za-z0-9._-]*)/)?.[1];
+}
+
+// Dependencies declared by pyproject.toml, for Poetry and PEP 621 projects
+function pyprojectDependencies(text: string): Set<string> {
+  const names = new Set<string>();
+  let section = "";
+  let inArray = false;
+
+  for (const raw of text.split("\n")) {
+    const line = raw.trim();
+    if (inArray) {
+      for (const m of line.matchAll(/"([^"]*)"|'([^']*)'/g)) {
+        const name = requirementName(m[1] ?? m[2]);
+        if (name) names.add(normalizeName("pypi", name));
+      }
+      if (line.includes("]")) inArray = false;
+      continue;
+    }
+    const header = line.match(/^\[([^\]]+)\]$/);
+    if (header) {
+      section = header[1].trim();
+      continue;
+    }
+
+    const key = line.match(/^([\w.-]+|"[^"]+")\s*=\s*(.*)$/);
+    if (!key) continue;
+    const poetry = /^tool\.poetry\.(?:group\.[^.]+\.)?(?:dev-)?dependencies$/.test(section);
+    if (poetry && unquote(key[1]) !== "python") {
+      names.add(normalizeName("pypi", unquote(key[1])));
+    }
+    const pep621 =
+      (section === "project" && key[1] === "dependencies") || section === "project.optional-dependencies";
+    if (pep621 && key[2].startsWith("[")) {
+      for (const m of key[2].matchAll(/"([^"]*)"|'([^']*)'/g)) {
+        const name = requirementName(m[1] ?? m[2]);
+        if (name) names.add(normalizeName("pypi", name));
+      }
+      inArray = !key[2].includes("]");
+    }
+  }
+  return names;
+}
+
+function parsePoetryLock(text: string, pyproject: string): LockedDependency[] {
+  const file = "poetry.lock";
+  const declared = pyprojectDependencies(pyproject);
+
+  // Source types (git, url, file, directory, legacy indexes) by package
+  const sources = new Map<string, string>();
+  let current: string | undefined;
+  let inSource = false;
+  for (const raw of text.split("\n")) {
+    const line = raw.trim();
+    if (line.startsWith("[")) {
+      inSource = line === "[package.source]";
+      if (line === "[[package]]") current = undefined;
+      continue;
+    }
+    const field = line.match(/^(\w+)\s*=\s*"([^"]*)"$/);
+    if (!field) continue;
+    if (!inSource && field[1] === "name" && current === undefined) current = field[2];
+    if (inSource && field[1] === "type" && current) sources.set(current, field[2]);
+  }
+
+  return tomlTables(text, "[[package]]").flatMap((pkg) => {
+    const { name, version } = pkg;
+    if (typeof name !== "string" || typeof version !== "string") return [];
+    const source = sources.get(name);
+    const local = source === "directory" || source === "file";
+    return [
+      locked(
+        "pypi",
+        file,
+        name,
+        local ? "" : version,
+        declared.has(normalizeName("pypi", name)),
+        local ? LOCAL_PACKAGE : source ? NOT_FROM_REGISTRY.pypi : undefined
+      ),
+    ];
+  });
+}
+
+// Every requirement is direct; only exact "==" pins can be fetched
+function parseRequirements(text: string): LockedDependency[] {
+  const file = "requirements.txt";
+  const deps: LockedDependency[] = [];
+
+  for (const raw of text.split("\n")) {
+    const stripped = raw.replace(/(^|\s)#.*$/, "").replace(/\\$/, "").trim();
+    // Options ("-r base.txt", "--index-url ...") other than editable installs
+    const editable = stripped.match(/^(?:-e|--editable)(?:\s+|=)(.+)$/);
+    if (!stripped || (stripped.startsWith("-") && !editable)) continue;
+    const line = editable ? editable[1].trim() : stripped;
+
+    // Path, URL and VCS requirements ("./vendor/lib", "git+https://...#egg=name")
+    // are named by their egg fragment, else as written
+    const egg = line.match(/#egg=([A-Za-z0-9][\w.-]*)/)?.[1];
+    if (/^(\.{1,2}(\/|$)|\/|~\/|file:)/.test(line)) {
+      deps.push(locked("pypi", file, egg ?? line, "", true, LOCAL_PACKAGE));
+      continue;
+    }
+    if (/^(git|hg|svn|bzr)\+|^[a-z][\w+.-]*:\/\//i.test(line)) {
+      deps.push(locked("pypi", file, egg ?? line, "", true, NOT_FROM_REGISTRY.pypi));
+      continue;
+    }
+
+    const name = requirementName(line);
+    if (!name) continue;
+    const constraint = line
+      .slice(line.indexOf(name) + name.length)
+      .replace(/^\[[^\]]*\]/, "")
+      .split(";")[0]
+      .trim();
+
+    if (constraint.startsWith("@")) {
+      deps.push(locked("pypi", file, name, "", true, NOT_FROM_REGISTRY.pypi));
+      continue;
+    }
+    const pin = constraint.match(/^===?\s*([^\s,*]+)$/);
+    deps.push(
+      pin
+        ? locked("pypi", file, name, pin[1], true)
+        : locked("pypi", file, name, constraint, true, "version not pinned")
+    );
+  }
+  return deps;
+}
+
+// ── Git dependencies ────────────────────────────────────────────────────────
+
+/**
+ * A dependency on a git repository, declared by a manifest
+ */
+export interface GitDependency {
+  name: string;
+  /** Repo source name, e.g. "github.com/owner/repo" */
+  repo: string;
+  /** Declared branch, tag or commit */
+  ref?: string;
+  manifest: string;
+}
+
+// Manifests that can declare git dependencies
+export const GIT_MANIFESTS = ["package.json", "Cargo.toml", "pyproject.toml", "requirements.txt"];
+
+const SHORTHAND_HOSTS: Record<string, string> = {
+  github: "github.com",
+  gitlab: "gitlab.com",
+  bitbucket: "bitbucket.org",
+};
+
+/**
+ * Repo and ref of a git dependency URL: "github:owner/repo#ref",
+ * "git+https://host/owner/repo.git#ref", "git+ssh://git@host:owner/repo",
+ * "git+https://host/owner/repo@ref" (pip) or npm's "owner/repo#ref"
+ */
+export function parseGitUrl(url: string): { repo: string; ref?: string } | undefined {
+  let rest = url.trim();
+  let host = "github.com";
+
+  const shorthand = rest.match(/^(github|gitlab|bitbucket):/);
+  if (shorthand) {
+    host = SHORTHAND_HOSTS[shorthand[1]];
+    rest = rest.slice(shorthand[0].length);
+  } else if (/^(git\+)?(https?|ssh|git):\/\//.test(rest)) {
+    rest = rest.replace(/^(git\+)?\w+:\/\/([^@/]+@)?/, "").replace(/^([^/:]+):(?!\d)/, "$1/");
+    const slash = rest.indexOf("/");
+    if (slash === -1) return undefined;
+    host = rest.slice(0, slash).replace(/:\d+$/, "");
+    rest = rest.slice(slash + 1);
+  }
+
+  const match = rest.match(/^([\w.-]+)\/([\w.-]+?)(?:\.git)?(?:@([^#]+))?(?:#(.*))?$/);
+  if (!match) return undefined;
+  const [, owner, repo, at, fragment] = match;
+  // npm's "#semver:^1.0.0" and pip's "#egg=name" fragments aren't refs
+  const ref = at ?? (fragment && !/^semver:|=/.test(fragment) ? fragment : undefined);
+  return { repo: `${host}/${owner}/${repo}`, ...(ref ? { ref } : {}) };
+}
+
+/**
+ * Git dependencies declared by a manifest (see GIT_MANIFESTS)
+ */
+export function parseGitDependencies(file: string, text: string): GitDependency[] {
+  const deps: GitDependency[] = [];
+  const add = (name: string, url: string, ref?: string) => {
+    const parsed = parseGitUrl(url);
+    if (parsed) deps.push({ name, repo: parsed.repo, ...(ref ?? parsed.ref ? { ref: ref ?? parsed.ref } : {}), manifest: file });
+  };
+
+  switch (file) {
+    case "package.json": {
+      const declared = declaredNpmDependencies(JSON.parse(text));
+      for (const [name, range] of Object.entries(declared)) {
+        if (/^(github:|gitlab:|bitbucket:|git\+|git:|https?:\/\/)|^[\w.-]+\/[\w.-]+(#.*)?$/.test(range)) {
+          add(name, range);
+        }
+      }
+      break;
+    }
+    case "Cargo.toml":
+    case "pyproject.toml": {
+      // Inline tables ("name = { git = "...", tag = "..." }") and
+      // dependency tables ("[dependencies.name]" with a git key)
+      let table: { name: string; fields: Record<string, string> } | undefined;
+      const flush = () => {
+        if (table?.fields.git) {
+          const { git, rev, tag, branch } = table.fields;
+          add(table.name, git, rev ?? tag ?? branch);
+        }
+        table = undefined;
+      };
+      for (const raw of text.split("\n")) {
+        const line = raw.trim();
+        const header = line.match(/^\[(.*dependencies)\.([\w.-]+)\]$/);
+        if (line.startsWith("[")) {
+          flush();
+          if (header) table = { name: header[2], fields: {} };
+          continue;
+        }
+        const field = line.match(/^([\w.-]+|"[^"]+")\s*=\s*(.*)$/);
+        if (!field) {
+          // PEP 508 direct references: "name @ git+https://..."
+          const direct = line.match(/["']([A-Za-z0-9][\w.-]*)\s*(?:\[[^\]]*\])?\s*@\s*(git\+[^"';\s]+)/);
+          if (direct) add(direct[1], direct[2]);
+          continue;
+        }
+        const [, key, value] = field;
+        if (table) {
+          table.fields[key] = unquote(value);
+          continue;
+        }
+        const inline = value.match(/^\{(.*)\}$/);
+        if (inline) {
+          const fields = Object.fromEntries(
+            [...inline[1].matchAll(/([\w-]+)\s*=\s*"([^"]*)"/g)].map((m) => [m[1], m[2]])
+          );
+          if (fields.git) add(unquote(key), fields.git, fields.rev ?? fields.tag ?? fields.branch);
+        }
+        const direct = value.match(/["']([A-Za-z0-9][\w.-]*)\s*(?:\[[^\]]*\])?\s*@\s*(git\+[^"';\s]+)/);
+        if (direct) add(direct[1], direct[2]);
+      }
+      flush();
+      break;
+    }
+    case "requirements.txt": {
+      for (const raw of text.split("\n")) {
+        const line = raw.replace(/(^|\s)#(?!egg=).*$/, "").trim();
+        const named = line.match(/^([A-Za-z0-9][\w.-]*)\s*(?:\[[^\]]*\])?\s*@\s*(git\+\S+)/);
+        if (named) {
+          add(named[1], named[2]);
+          continue;
+        }
+        // "-e git+https://...#egg=name"
+        const egg = line.match(/^(?:-e\s+)?(git\+\S+)#egg=([\w.-]+)/);
+        if (egg) add(egg[2], egg[1]);
+      }
+      break;
+    }
+  }
+  return deps;
+}
@@ -0,0 +1,225 @@
+import type { SgNode } from "@ast-grep/napi";
+import type { OutlineSymbolKind } from "../types.js";
+
+/**
+ * Module statements of a JS/TS file, as written: top-level exports and
+ * import bindings (opensrc.exports), and every module specifier it loads
+ * (opensrc.imports). Callers follow specifiers with the import resolver.
+ */
+
+export const MODULE_LANGS = new Set(["javascript", "typescript", "tsx"]);
+
+export type ExportStatement =
+  /** `export <declaration>` / `export default <declaration or expression>` (1-based lines) */
+  | { type: "declaration"; default: boolean; line: number; endLine: number; text: string; kind: OutlineSymbolKind }
+  /** `export { local as name }`, `export default local` */
+  | { type: "local"; name: string; local: string; line: number }
+  /** `export { imported as name } from "x"` */
+  | { type: "reexport"; name: string; imported: string; from: string; line: number }
+  /** `export * as name from "x"` */
+  | { type: "namespace"; name: string; from: string; line: number }
+  /** `export * from "x"` */
+  | { type: "star"; from: string; line: number };
+
+export interface ImportBinding {
+  /** Imported name; "default", or "*" for `import * as x` */
+  imported: string;
+  from: string;
+  line: number;
+}
+
+export interface ModuleStatements {
+  exports: ExportStatement[];
+  /** Imported bindings by local name */
+  imports: Map<string, ImportBinding>;
+}
+
+/**
+ * Module a file loads; `require`/`import()` only with a string literal
+ */
+export interface ModuleSpecifier {
+  specifier: string;
+  line: number;
+  kind: "import" | "export" | "require" | "dynamic";
+  /** `import type` / `export type` (erased at runtime) */
+  typeOnly: boolean;
+}
+
+const kindOf = (node: SgNode): string => node.kind() as string;
+const line = (node: SgNode) => node.range().start.line + 1;
+const unquote = (node: SgNode | null) => node?.text().slice(1, -1);
+
+// Kind of an anonymous default export (`export default function () {}`)
+function valueKind(node: SgNode): OutlineSymbolKind {
+  const kind = kindOf(node);
+  if (["function_expression", "function", "arrow_function", "generator_function"].includes(kind)) return "function";
+  return kind === "class" ? "class" : "variable";
+}
+
+/**
+ * Top-level export statements and import bindings of a parsed JS/TS file
+ */
+export function moduleStatements(root: SgNode): ModuleStatements {
+  const exports: ExportStatement[] = [];
+  const imports = new Map<string, ImportBinding>();
+
+  for (const node of root.children()) {
+    const kind = kindOf(node);
+
+    if (kind === "import_statement") {
+      const from = unquote(node.field("source"));
+      const clause = node.children().find((c) => kindOf(c) === "import_clause");
+      if (!from || !clause) continue;
+      for (const part of clause.children()) {
+        const partKind = kindOf(part);
+        if (partKind === "identifier") {
+          imports.set(part.text(), { imported: "default", from, line: line(node) });
+        } else if (partKind === "namespace_import") {
+          const local = part.children().find((c) => kindOf(c) === "identifier");
+          if (local) imports.set(local.text(), { imported: "*", from, line: line(node) });
+        } else if (partKind === "named_imports") {
+          for (const spec of part.children().filter((c) => kindOf(c) === "import_specifier")) {
+            const imported = spec.field("name")?.text();
+            if (!imported) continue;
+            imports.set(spec.field("alias")?.text() ?? imported, { imported, from, line: line(node) });
+          }
+        }
+      }
+      continue;
+    }
+
+    if (kind !== "export_statement") continue;
+    const from = unquote(node.field("source"));
+    const isDefault = node.children().some((c) => kindOf(c) === "default");
+    const declaration = node.field("declaration") ?? node.field("value");
+
+    if (declaration) {
+      if (isDefault && kindOf(declaration) === "identifier") {
+        exports.push({ type: "local", name: "default", local: declaration.text(), line: line(node) });
+      } else {
+        const range = node.range();
+        exports.push({
+          type: "declaration",
+          default: isDefault,
+          line: range.start.line + 1,
+          endLine: range.end.line + 1,
+          text: declaration.text(),
+          kind: valueKind(declaration),
+        });
+      }
+      continue;
+    }
+
+    const clause = node.children().find((c) => kindOf(c) === "export_clause");
+    if (clause) {
+      for (const spec of clause.children().filter((c) => kindOf(c) === "export_specifier")) {
+        const local = spec.field("name")?.text();
+        if (!local) continue;
+        const name = spec.field("alias")?.text() ?? local;
+        exports.push(
+          from
+            ? { type: "reexport", name, imported: local, from, line: line(node) }
+            : { type: "local", name, local, line: line(node) }
+        );
+      }
+      continue;
+    }
+
+    if (!from) continue;
+    const namespace = node.children().find((c) => kindOf(c) === "namespace_export");
+    const alias = namespace?.children().find((c) => kindOf(c) === "identifier" || kindOf(c) === "string");
+    exports.push(
+      alias
+        ? { type: "namespace", name: kindOf(alias) === "string" ? unquote(alias)! : alias.text(), from, line: line(node) }
+        : { type: "star", from, line: line(node) }
+    );
+  }
+
+  return { exports, imports };
+}
+
+// Call forms that load a module: require("x"), import("x")
+const LOADER_CALLS = {
+  rule: {
+    kind: "call_expression",
+    has: { field: "function", any: [{ kind: "import" }, { kind: "identifier", regex: "^require$" }] },
+  },
+};
+
+/**
+ * Every module specifier in a parsed JS/TS file, in source order
+ */
+export function moduleSpecifiers(root: SgNode): ModuleSpecifier[] {
+  const specifiers: ModuleSpecifier[] = [];
+  const typeOnly = (node: SgNode) => node.children().some((c) => kindOf(c) === "type");
+
+  for (const node of root.findAll({ rule: { any: [{ kind: "import_statement" }, { kind: "export_statement" }] } })) {
+    const isImport = kindOf(node) === "import_statement";
+    const requireClause = node.children().find((c) => kindOf(c) === "import_require_clause");
+    const source = node.field("source") ?? requireClause?.children().find((c) => kindOf(c) === "string") ?? null;
+    const specifier = unquote(source);
+    if (!specifier) continue;
+    specifiers.push({
+      specifier,
+      line: line(node),
+      kind: requireClause ? "require" : isImport ? "import" : "export",
+      typeOnly: typeOnly(node),
+    });
+  }
+
+  for (const call of root.findAll(LOADER_CALLS)) {
+    const arg = call.field("arguments")?.children().find((c) => c.isNamed());
+    if (!arg || kindOf(arg) !== "string") continue;
+    specifiers.push({
+      specifier: unquote(arg)!,
+      line: line(call),
+      kind: kindOf(call.field("function")!) === "import" ? "dynamic" : "require",
+      typeOnly: false,
+    });
+  }
+
+  return specifiers.sort((a, b) => a.line - b.line);
+}
+
+/**
+ * Strongly connected groups of files (import cycles) in a graph given as
+ * file → imported files, using Tarjan's algorithm
+ */
+export function importCycles(graph: Map<string, string[]>): string[][] {
+  const cycles: string[][] = [];
+  const index = new Map<string, number>();
+  const low = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+
+  const visit = (file: string) => {
+    index.set(file, index.size);
+    low.set(file, index.get(file)!);
+    stack.push(file);
+    onStack.add(file);
+
+    for (const next of graph.get(file) ?? []) {
+      if (!index.has(next)) {
+        visit(next);
+        low.set(file, Math.min(low.get(file)!, low.get(next)!));
+      } else if (onStack.has(next)) {
+        low.set(file, Math.min(low.get(file)!, index.get(next)!));
+      }
+    }
+
+    if (low.get(file) !== index.get(file)) return;
+    const group: string[] = [];
+    let member: string;
+    do {
+      member = stack.pop()!;
+      onStack.delete(member);
+      group.push(member);
+    } while (member !== file);
+    if (group.length > 1 || graph.get(file)?.includes(file)) cycles.push(group.sort());
+  };
+
+  for (const file of graph.keys()) {
+    if (!index.has(file)) visit(file);
+  }
+  return cycles;
+}
@@ -1,45 +1,74 @@
-import { join, resolve, extname } from "node:path";
-import { readFile } from "node:fs/promises";
+import { basename, dirname, extname, join, relative, resolve } from "node:path";
+import { readFile, rm, stat } from "node:fs/promises";
+import { existsSync } from "node:fs";
+import { builtinModules } from "node:module";
 import fg, { type Entry } from "fast-glob";
-import { Lang, parse, type SgNode } from "@ast-grep/napi";
-import type { Source, FileEntry, GrepResult, ParsedSpec, FetchedSource, RemoveResult, AstGrepMatch, AstGrepOptions, TreeNode } from "../types.js";
+import { parse, type NapiConfig, type SgNode } from "@ast-grep/napi";
+import type { Source, FileEntry, GrepResult, GrepOptions, GrepFileMatch, GrepCount, IndexStatus, ParsedSpec, FetchedSource, RemoveResult, AstGrepMatch, AstGrepOptions, AstGrepRule, AstRewriteOptions, AstRewriteResult, AstRewriteFile, OutlineSymbol, OutlineSymbolKind, FileOutline, ExportedSymbol, EntryPoint, ImportEdge, ImportGraph, DiffOptions, DiffFile, DiffResult, SyncOptions, SyncResult, StatusResult, SymbolUsage, UsagesOptions, UsagesResult, ReadOptions, ReadRequest, SymbolDefinition, SymbolReference, SymbolQueryOptions, ImportResolution, TreeNode } from "../types.js";
 import {
   getOpensrcDir,
-  removeSourcesByName,
+  removeSources,
+  versionOf,
+  versionStoreOf,
+  getVersionStorePath,
   cleanSourcesFiltered,
   writeSources,
   readSources,
 } from "../sources.js";
 import { getOpensrcCwd } from "../config.js";
-import { fetchCommand } from "opensrc/dist/commands/fetch.js";
 import { parsePackageSpec, detectInputType } from "opensrc/dist/lib/registries/index.js";
+import { parseRepoSpec } from "opensrc/dist/lib/repo.js";
 import { createLogger } from "../logger.js";
+import {
+  SourceNotFoundError,
+  PathTraversalError,
+  AccessDeniedError,
+  FileNotFoundError,
+  FileReadError,
+  FetchError,
+  BudgetExceededError,
+  InvalidPatternError,
+  LanguageUnavailableError,
+  SymbolNotFoundError,
+  ImportResolutionError,
+} from "../errors.js";
+import { closestMatches } from "../diagnostics.js";
+import { createUsageTracker, type UsageTracker } from "../budget.js";
+import { compileGrepPattern, isBinary, searchContent } from "./grep.js";
+import { normalizeLang, langForFile, requireParser } from "./languages.js";
+import { diffStat, lineCount, unifiedDiff } from "./diff.js";
+import { MAX_RESPONSE_CHARS } from "../truncate.js";
+import { hasOutline, outlineOf } from "./outline.js";
+import { createImportResolver, splitPackageSpecifier } from "./resolve-import.js";
+import { createProjectFilter, type FileFilter } from "./project-filter.js";
+import { USAGE_LANGS, scanUsages, type Ecosystem } from "./usages.js";
+import { fetchIntoStore, parseRemoteSpec, specSource, type OpensrcFetchResult } from "./remotes.js";
+import { createSyncAPI, type FetchedSpec } from "./sync.js";
+import { MODULE_LANGS, importCycles, moduleSpecifiers, moduleStatements } from "./modules.js";
+import {
+  buildIndex,
+  loadIndex,
+  removeIndex,
+  indexStatus,
+  isStale,
+  filterCandidates,
+} from "./trigram-index.js";
+import {
+  buildSymbolIndex,
+  loadSymbolIndex,
+  removeSymbolIndex,
+  symbolIndexStatus,
+  isSymbolIndexStale,
+  findDefinitions,
+  findReferences,
+  searchSymbols,
+  type SymbolIndex,
+} from "./symbol-index.js";
 
 const log = createLogger("api");
 
-// Extension → Lang mapping for ast-grep
-const EXT_LANG: Record<string, Lang> = {
-  ".js": Lang.JavaScript,
-  ".mjs": Lang.JavaScript,
-  ".cjs": Lang.JavaScript,
-  ".jsx": Lang.JavaScript,
-  ".ts": Lang.TypeScript,
-  ".tsx": Lang.Tsx,
-  ".html": Lang.Html,
-  ".css": Lang.Css,
-};
-
-// String → Lang mapping (for options.lang)
-const STR_LANG: Record<string, Lang> = {
-  javascript: Lang.JavaScript,
-  js: Lang.JavaScript,
-  typescript: Lang.TypeScript,
-  ts: Lang.TypeScript,
-  tsx: Lang.Tsx,
-  jsx: Lang.JavaScript,
-  html: Lang.Html,
-  css: Lang.Css,
-};
+// Directories no file walk enters
+const WALK_IGNORE = ["**/node_modules/**", "**/.git/**"];
 
 // Extract metavar names from pattern (e.g. "$NAME", "$$$ARGS")
 function parseMetavars(pattern: string): string[] {
@@ -47,6 +76,45 @@ function parseMetavars(pattern: string): string[] {
   return [...new Set(matches.map((m) => m.replace(/^\$+/, "")))];
 }
 
+// Keys that mark an object as an ast-grep rule rather than astGrep options
+const RULE_KEYS = [
+  "pattern", "kind", "regex", "nthChild", "range",
+  "inside", "has", "precedes", "follows",
+  "all", "any", "not", "matches",
+];
+
+function isRule(value: unknown): value is AstGrepRule {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    RULE_KEYS.some((key) => key in value)
+  );
+}
+
+// Split astGrep arguments into its two call forms:
+// astGrep(source | sources, rule, options) and astGrep(rule, options)
+function parseAstGrepArgs(args: unknown[]): {
+  sourceNames: string[] | undefined;
+  rule: string | AstGrepRule;
+  options: AstGrepOptions;
+} {
+  const [first, second, third] = args;
+  const ruleFirst =
+    isRule(first) ||
+    (typeof first === "string" && (second === undefined || (typeof second === "object" && !isRule(second))));
+
+  if (ruleFirst) {
+    const options = (second ?? {}) as AstGrepOptions;
+    return { sourceNames: options.sources, rule: first as string | AstGrepRule, options };
+  }
+  return {
+    sourceNames: Array.isArray(first) ? first : [first as string],
+    rule: second as string | AstGrepRule,
+    options: (third ?? {}) as AstGrepOptions,
+  };
+}
+
 // Extract captured metavars from matched node
 function extractMetavars(
   node: SgNode,
@@ -68,13 +136,123 @@ function extractMetavars(
   return result;
 }
 
-interface OpensrcFetchResult {
-  package: string;
-  version: string;
-  path: string;
-  success: boolean;
-  error?: string;
-  registry?: "npm" | "pypi" | "crates";
+// Text of a rule for metavar extraction and error messages
+function ruleText(rule: string | AstGrepRule): string {
+  return typeof rule === "string" ? rule : JSON.stringify(rule);
+}
+
+// Substitute captured metavars into a rewrite template.
+// $$$VAR keeps the original text between the first and last captured node;
+// uncaptured $VAR is left as written.
+function expandReplacement(template: string, node: SgNode, content: string): string {
+  return template.replace(/\$\$\$([A-Z_][A-Z0-9_]*)|\$([A-Z_][A-Z0-9_]*)/g, (text, multi, single) => {
+    if (multi) {
+      const nodes = node.getMultipleMatches(multi);
+      if (nodes.length === 0) return "";
+      return content.slice(nodes[0].range().start.index, nodes[nodes.length - 1].range().end.index);
+    }
+    return node.getMatch(single)?.text() ?? text;
+  });
+}
+
+// Cut file content to a 1-based inclusive line range, optionally numbering
+// lines like a code frame ("  42 | ...")
+function sliceLines(content: string, options: ReadOptions): string {
+  const { startLine, endLine, lineNumbers = false } = options;
+  if (startLine === undefined && endLine === undefined && !lineNumbers) return content;
+
+  const lines = content.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  const start = Math.max(startLine ?? 1, 1);
+  const end = Math.min(endLine ?? lines.length, lines.length);
+  const selected = lines.slice(start - 1, end);
+  if (!lineNumbers) return selected.join("\n");
+
+  const width = String(end).length;
+  return selected.map((line, i) => `${String(start + i).padStart(width)} | ${line}`).join("\n");
+}
+
+// Find a symbol by name (shallowest first), or by a dotted path
+// through its containers ("ZodString.email")
+function findSymbol(symbols: OutlineSymbol[], name: string): OutlineSymbol | undefined {
+  const queue = [...symbols];
+  for (const symbol of queue) {
+    if (symbol.name === name) return symbol;
+    queue.push(...(symbol.children ?? []));
+  }
+
+  const dot = name.indexOf(".");
+  if (dot === -1) return undefined;
+  const head = name.slice(0, dot);
+  for (const symbol of queue) {
+    if (symbol.name !== head || !symbol.children) continue;
+    const found = findSymbol(symbol.children, name.slice(dot + 1));
+    if (found) return found;
+  }
+  return undefined;
+}
+
+function symbolNames(symbols: OutlineSymbol[]): string[] {
+  return symbols.flatMap((s) => [s.name, ...symbolNames(s.children ?? [])]);
+}
+
+// Drop matches nested inside (or overlapping) an earlier match
+function outermostNodes(nodes: SgNode[]): SgNode[] {
+  const sorted = [...nodes].sort((a, b) => a.range().start.index - b.range().start.index);
+  const kept: SgNode[] = [];
+  let end = -1;
+  for (const node of sorted) {
+    const range = node.range();
+    if (range.start.index < end) continue;
+    kept.push(node);
+    end = range.end.index;
+  }
+  return kept;
+}
+
+// Source with an id, or with name@version (also the default version's own)
+function findSource(sources: Source[], id: string): Source | undefined {
+  return sources.find((s) => s.id === id) ?? sources.find((s) => `${s.name}@${versionOf(s)}` === id);
+}
+
+// Renamed files whose line changes are at most this share of their lines
+const RENAME_SIMILARITY = 0.5;
+const MAX_RENAME_CANDIDATES = 10;
+
+// Resolve a path inside a source directory (path traversal protection)
+function resolveWithin(sourcePath: string, filePath: string): string {
+  const fullPath = resolve(sourcePath, filePath);
+  if (!fullPath.startsWith(sourcePath + "/") && fullPath !== sourcePath) {
+    throw new PathTraversalError(filePath);
+  }
+  return fullPath;
+}
+
+// Read a file, charging it to the execution budget before reading.
+// fs failures are mapped to tagged errors.
+async function readSourceFile(
+  fullPath: string,
+  filePath: string,
+  usage: UsageTracker
+): Promise<string> {
+  let size: number;
+  try {
+    size = (await stat(fullPath)).size;
+  } catch (e) {
+    const code = (e as NodeJS.ErrnoException).code;
+    if (code === "ENOENT" || code === "ENOTDIR") {
+      throw new FileNotFoundError(filePath);
+    }
+    throw new FileReadError(filePath, e);
+  }
+
+  usage.chargeFile(size);
+
+  try {
+    return await readFile(fullPath, "utf8");
+  } catch (e) {
+    throw new FileReadError(filePath, e);
+  }
 }
 
 export interface OpensrcAPI {
@@ -84,22 +262,50 @@ export interface OpensrcAPI {
   get(name: string): Source | undefined;
   files(sourceName: string, glob?: string): Promise<FileEntry[]>;
   tree(sourceName: string, options?: { depth?: number; pattern?: string }): Promise<TreeNode>;
-  grep(pattern: string, options?: {
-    sources?: string[];
-    include?: string;
-    maxResults?: number;
-  }): Promise<GrepResult[]>;
+  grep(pattern: string, options: GrepOptions & { filesOnly: true }): Promise<GrepFileMatch[]>;
+  grep(pattern: string, options: GrepOptions & { count: true }): Promise<GrepCount[]>;
+  grep(pattern: string, options?: GrepOptions): Promise<GrepResult[]>;
   astGrep(
-    sourceName: string,
-    pattern: string,
+    sourceName: string | string[],
+    rule: string | AstGrepRule,
     options?: AstGrepOptions
   ): Promise<AstGrepMatch[]>;
-  read(sourceName: string, filePath: string): Promise<string>;
-  readMany(sourceName: string, paths: string[]): Promise<Record<string, string>>;
+  astGrep(rule: string | AstGrepRule, options?: AstGrepOptions): Promise<AstGrepMatch[]>;
+  astRewrite(
+    sourceName: string | string[],
+    rule: string | AstGrepRule,
+    replacement: string,
+    options?: AstRewriteOptions
+  ): Promise<AstRewriteResult>;
+  outline(sourceName: string, filePath: string): Promise<OutlineSymbol[]>;
+  outlineMany(sourceName: string, glob: string, options?: { limit?: number }): Promise<FileOutline[]>;
+  read(sourceName: string, filePath: string, options?: ReadOptions): Promise<string>;
+  readSymbol(
+    sourceName: string,
+    filePath: string,
+    name: string,
+    options?: Pick<ReadOptions, "lineNumbers">
+  ): Promise<string>;
+  readMany(sourceName: string, paths: (string | ReadRequest)[]): Promise<Record<string, string>>;
   resolve(spec: string): Promise<ParsedSpec>;
+  resolveImport(sourceName: string, fromFile: string, specifier: string): Promise<ImportResolution>;
+  exports(sourceName: string, options?: { package?: string }): Promise<EntryPoint[]>;
+  imports(sourceName: string, options?: { file?: string }): Promise<ImportGraph>;
+  definition(name: string, options?: SymbolQueryOptions): Promise<SymbolDefinition[]>;
+  references(name: string, options?: SymbolQueryOptions): Promise<SymbolReference[]>;
+  symbols(
+    sourceName: string,
+    query: string,
+    options?: { kinds?: OutlineSymbolKind[]; limit?: number }
+  ): Promise<SymbolDefinition[]>;
+  indexStatus(sourceNames?: string[]): Promise<IndexStatus[]>;
+  diff(a: string, b: string, options?: DiffOptions): Promise<DiffResult>;
+  usages(sourceName: string, options?: UsagesOptions): Promise<UsagesResult>;
 
   // Mutation operations
   fetch(specs: string | string[], options?: { modify?: boolean; }): Promise<FetchedSource[]>;
+  sync(options?: SyncOptions): Promise<SyncResult>;
+  status(options?: { refetch?: boolean }): Promise<StatusResult>;
   remove(names: string[]): Promise<RemoveResult>;
   clean(options?: {
     packages?: boolean;
@@ -108,18 +314,486 @@ export interface OpensrcAPI {
     pypi?: boolean;
     crates?: boolean;
   }): Promise<RemoveResult>;
+  reindex(sourceNames?: string[]): Promise<IndexStatus[]>;
 }
 
 /**
  * Create unified opensrc API for the executor sandbox
- * Simple API: returns values directly, throws on errors
+ * Simple API: returns values directly, throws tagged errors (see errors.ts).
+ * `projectDir` is the user's project, whose lockfiles sync reads and
+ * whose imports usages scans.
+ * `fileFilter` hides and denies files (see project-filter.ts).
  */
 export function createOpensrcAPI(
   getSources: () => Source[],
-  updateSources: (sources: Source[]) => void
+  updateSources: (sources: Source[]) => void,
+  usage: UsageTracker = createUsageTracker(),
+  projectDir: string = process.cwd(),
+  fileFilter?: FileFilter
 ): OpensrcAPI {
   const opensrcDir = getOpensrcDir();
 
+  // Directories every file walk skips, plus those the file filter prunes
+  const ignored = (...patterns: string[]): string[] => [
+    ...WALK_IGNORE,
+    ...patterns,
+    ...(fileFilter?.ignore ?? []),
+  ];
+
+  // Drop walked paths the file filter hides
+  const visible = <T extends string | Entry>(entries: T[]): T[] =>
+    fileFilter
+      ? entries.filter((e) =>
+          typeof e === "string" ? !fileFilter.hidden(e) : !fileFilter.hidden(e.path, e.dirent.isDirectory())
+        )
+      : entries;
+
+  // Read a file by path within a source, unless the file filter denies it
+  const readFileWithin = async (sourcePath: string, filePath: string): Promise<string> => {
+    const fullPath = resolveWithin(sourcePath, filePath);
+    const reason = fileFilter?.denied(relative(sourcePath, fullPath));
+    if (reason) throw new AccessDeniedError(filePath, reason);
+    return readSourceFile(fullPath, filePath, usage);
+  };
+  const importResolver = createImportResolver(opensrcDir);
+
+  // Look up a source by id ("zod" for the default version, or "zod@3.22.0");
+  // unknown ids carry close-match suggestions
+  const requireSource = (sourceName: string): Source => {
+    const sources = getSources();
+    const source = findSource(sources, sourceName);
+    if (!source) {
+      throw new SourceNotFoundError(
+        sourceName,
+        closestMatches(sourceName, sources.map((s) => s.id))
+      );
+    }
+    return source;
+  };
+
+  // Store each spec of one fetch goes to: a version store for a version of
+  // an already fetched package (or of one fetched earlier in the same call)
+  // that isn't fetched yet; undefined for the main store
+  const storeRouter = () => {
+    const claimed = new Map<string, string | undefined>();
+    return (spec: string): string | undefined => {
+      const target = specSource(spec, projectDir);
+      if (!target) return undefined;
+      const { type, name, version } = target;
+
+      const key = `${type}:${name}`;
+      const fetched = getSources().filter((s) => s.type === type && s.name === name);
+      if (fetched.length === 0 && (!claimed.has(key) || claimed.get(key) === version)) {
+        claimed.set(key, version);
+        return undefined;
+      }
+      if (!version) return undefined;
+      if (fetched.some((s) => !versionStoreOf(s) && versionOf(s) === version)) return undefined;
+      return join(opensrcDir, getVersionStorePath(type, name, version));
+    };
+  };
+
+  // Fetch specs into their stores with the opensrc CLI and refresh the
+  // source list. Failed specs are reported in the results, not thrown.
+  // `inPlace` fetches everything into the main store, replacing the
+  // default version of each source.
+  const fetchSpecs = async (
+    specList: string[],
+    modify: boolean,
+    inPlace = false
+  ): Promise<{ fetched: FetchedSpec[]; sources: Source[] }> => {
+    // Group specs by the store they are fetched into
+    const mainCwd = getOpensrcCwd();
+    const storeFor = inPlace ? () => undefined : storeRouter();
+    const batches = new Map<string, string[]>();
+    for (const spec of specList) {
+      const cwd = storeFor(spec) ?? mainCwd;
+      batches.set(cwd, [...(batches.get(cwd) ?? []), spec]);
+    }
+
+    const fetched: FetchedSpec[] = [];
+    for (const [cwd, batch] of batches) {
+      let batchResults: OpensrcFetchResult[];
+      try {
+        batchResults = await fetchIntoStore(batch, cwd, {
+          baseDir: projectDir,
+          // Version stores never touch the user's project files
+          allowModifications: cwd === mainCwd ? modify : false,
+        });
+      } catch (e) {
+        if (cwd !== mainCwd) await rm(cwd, { recursive: true, force: true });
+        throw new FetchError(batch.join(", "), e);
+      }
+      if (cwd !== mainCwd && !batchResults.some((r) => r.success)) {
+        await rm(cwd, { recursive: true, force: true });
+      }
+      // One result per spec, in order
+      fetched.push(...batchResults.map((result, i) => ({ spec: batch[i], cwd, result })));
+    }
+    log.debug("fetch results", { results: fetched.map(({ result: r }) => ({ pkg: r.package, success: r.success })) });
+
+    const sources = await readSources();
+    updateSources(sources);
+    return { fetched, sources };
+  };
+
+  // Source a successful fetch produced: same name and version, in the
+  // store it was fetched into
+  const fetchedSource = (sources: Source[], cwd: string, r: OpensrcFetchResult): Source | undefined => {
+    const store = cwd === getOpensrcCwd() ? undefined : relative(opensrcDir, cwd);
+    const inStore = sources.filter((s) => s.name === r.package && versionStoreOf(s) === store);
+    return inStore.find((s) => versionOf(s) === r.version) ?? inStore[0];
+  };
+
+  // Files of the user's project, charged like source files
+  const readProjectFile = (file: string): Promise<string> =>
+    readSourceFile(join(projectDir, file), file, usage);
+
+  // Files of the project sandbox code may see (.gitignore, secrets)
+  const projectFilter = createProjectFilter(projectDir);
+
+  // Names a source is imported as: npm package names, Python top-level
+  // packages, crate names ("-" becomes "_"). Repos get those of the
+  // manifests they contain.
+  const moduleNamesOf = async (source: Source): Promise<{ name: string; ecosystem: Ecosystem }[]> => {
+    const sourcePath = resolve(opensrcDir, source.path);
+    const crate = (name: string) => ({ name: name.replace(/-/g, "_"), ecosystem: "rust" as const });
+    const pythonPackages = async () =>
+      (await fg(["*/__init__.py", "src/*/__init__.py"], { cwd: sourcePath, onlyFiles: true }))
+        .map((file) => basename(dirname(file)))
+        .filter((name) => !/^(tests?|docs?|examples?|benchmarks?|scripts)$/.test(name))
+        .map((name) => ({ name, ecosystem: "python" as const }));
+
+    switch (source.type) {
+      case "npm":
+        return [{ name: source.name, ecosystem: "js" }];
+      case "crates":
+        return [crate(source.name)];
+      case "pypi": {
+        const packages = await pythonPackages();
+        return packages.length > 0
+          ? packages
+          : [{ name: source.name.toLowerCase().replace(/[-.]/g, "_"), ecosystem: "python" }];
+      }
+    }
+
+    const names: { name: string; ecosystem: Ecosystem }[] = (await importResolver.packageNames(source)).map(
+      (name) => ({ name, ecosystem: "js" })
+    );
+    if (existsSync(join(sourcePath, "Cargo.toml"))) {
+      const manifest = await readFile(join(sourcePath, "Cargo.toml"), "utf8");
+      const name = manifest.match(/^\[package\][^[]*?^name\s*=\s*"([^"]+)"/m)?.[1];
+      if (name) names.push(crate(name));
+    }
+    if (existsSync(join(sourcePath, "pyproject.toml")) || existsSync(join(sourcePath, "setup.py"))) {
+      names.push(...(await pythonPackages()));
+    }
+    return names.length > 0 ? names : [{ name: basename(source.name), ecosystem: "js" }];
+  };
+
+  // Build search indexes for freshly fetched sources. Best effort: grep
+  // falls back to scanning every file when a source has no index.
+  const indexSources = async (sources: Source[]): Promise<void> => {
+    for (const source of sources) {
+      try {
+        const index = await loadIndex(opensrcDir, source);
+        if (index && !isStale(index, source)) continue;
+        const status = await buildIndex(opensrcDir, source);
+        log.debug("index built", { ...status });
+      } catch (e) {
+        log.warn("index build failed", { source: source.id, error: String(e) });
+      }
+
+      try {
+        const index = await loadSymbolIndex(opensrcDir, source);
+        if (index && !isSymbolIndexStale(index, source)) continue;
+        const status = await buildSymbolIndex(opensrcDir, source);
+        symbolIndexes.delete(source.path);
+        log.debug("symbol index built", { source: source.id, ...status });
+      } catch (e) {
+        log.warn("symbol index build failed", { source: source.id, error: String(e) });
+      }
+    }
+  };
+
+  // Loaded symbol indexes by source path. Missing or stale indexes are
+  // built on first use, since definition/references have no fallback.
+  const symbolIndexes = new Map<string, SymbolIndex>();
+  const requireSymbolIndex = async (source: Source): Promise<SymbolIndex> => {
+    let index = symbolIndexes.get(source.path) ?? (await loadSymbolIndex(opensrcDir, source));
+    if (!index || isSymbolIndexStale(index, source)) {
+      log.info("building symbol index", { source: source.id });
+      await buildSymbolIndex(opensrcDir, source);
+      index = await loadSymbolIndex(opensrcDir, source);
+      if (!index) throw new FileReadError(source.path, "symbol index could not be loaded");
+    }
+    symbolIndexes.set(source.path, index);
+    return index;
+  };
+
+  const symbolIndexesFor = async (
+    sourceNames: string[] | undefined
+  ): Promise<{ source: Source; index: SymbolIndex }[]> => {
+    const sources = sourceNames ? sourceNames.map(requireSource) : getSources();
+    const indexes: { source: Source; index: SymbolIndex }[] = [];
+    for (const source of sources) {
+      indexes.push({ source, index: await requireSymbolIndex(source) });
+    }
+    return indexes;
+  };
+
+  // Drop search indexes of removed sources, keeping those of repos still
+  // shared by remaining packages
+  const dropIndexes = async (removed: Source[], remaining: Source[]): Promise<void> => {
+    for (const source of removed) {
+      if (remaining.some((s) => s.path === source.path)) continue;
+      symbolIndexes.delete(source.path);
+      try {
+        await removeIndex(opensrcDir, source);
+        await removeSymbolIndex(opensrcDir, source);
+      } catch (e) {
+        log.warn("index removal failed", { source: source.id, error: String(e) });
+      }
+    }
+  };
+
+  const syncAPI = createSyncAPI({
+    projectDir,
+    opensrcDir,
+    usage,
+    getSources,
+    updateSources,
+    readProjectFile,
+    fetchSpecs,
+    fetchedSource,
+    indexSources,
+    dropIndexes,
+  });
+
+  // Read and outline one file; throws for file types without outline support
+  const outlineFile = async (
+    source: Source,
+    filePath: string
+  ): Promise<{ content: string; symbols: OutlineSymbol[] }> => {
+    const lang = langForFile(filePath);
+    if (!lang || !hasOutline(lang)) {
+      throw new LanguageUnavailableError(
+        lang ?? (extname(filePath) || filePath),
+        "outline is not supported for this file type"
+      );
+    }
+
+    const parser = requireParser(lang);
+    const sourcePath = resolve(opensrcDir, source.path);
+    const content = await readSourceFile(resolveWithin(sourcePath, filePath), filePath, usage);
+    return { content, symbols: outlineOf(lang, parse(parser, content).root(), content) };
+  };
+
+  // Exported names of JS/TS files in a source, following re-exports and
+  // imports within the source. Files in an import cycle see the names
+  // collected so far.
+  const exportWalker = (source: Source) => {
+    const sourcePath = resolve(opensrcDir, source.path);
+    const done = new Map<string, Map<string, ExportedSymbol>>();
+    const pending = new Set<string>();
+
+    // File a specifier points to within this source
+    const follow = async (fromFile: string, specifier: string): Promise<string | undefined> => {
+      try {
+        const target = await importResolver.resolve(getSources(), source, fromFile, specifier);
+        return ["relative", "paths", "workspace"].includes(target.kind) ? target.file : undefined;
+      } catch (e) {
+        if (ImportResolutionError.is(e)) return undefined;
+        throw e;
+      }
+    };
+
+    const exportsOf = async (file: string): Promise<Map<string, ExportedSymbol>> => {
+      const cached = done.get(file);
+      if (cached) return cached;
+      const result = new Map<string, ExportedSymbol>();
+      const lang = langForFile(file);
+      if (pending.has(file) || !lang || !MODULE_LANGS.has(lang)) return result;
+      pending.add(file);
+
+      const content = await readSourceFile(resolveWithin(sourcePath, file), file, usage);
+      const root = parse(requireParser(lang), content).root();
+      const symbols = outlineOf(lang, root, content);
+      const { exports, imports } = moduleStatements(root);
+
+      const declared = (name: string, symbol: OutlineSymbol): ExportedSymbol => ({
+        name,
+        kind: symbol.kind,
+        signature: symbol.signature,
+        doc: symbol.doc,
+        file,
+        line: symbol.line,
+      });
+
+      const imported = async (name: string, importedName: string, from: string, line: number, local = name) => {
+        const target = await follow(file, from);
+        if (!target) return { name, file, line, from };
+        if (importedName === "*") {
+          return { name, kind: "module" as const, signature: `* as ${local} from "${from}"`, file: target, line: 1 };
+        }
+        const found = (await exportsOf(target)).get(importedName);
+        return found ? { ...found, name } : { name, file, line, from };
+      };
+
+      for (const statement of exports) {
+        switch (statement.type) {
+          case "declaration": {
+            const inside = symbols.filter((s) => s.line >= statement.line && s.endLine <= statement.endLine);
+            if (!statement.default) {
+              for (const symbol of inside) result.set(symbol.name, declared(symbol.name, symbol));
+            } else if (inside.length > 0) {
+              result.set("default", declared("default", inside[0]));
+            } else {
+              const signature = statement.text.split("\n")[0].replace(/\s*\{$/, "").slice(0, 200);
+              result.set("default", { name: "default", kind: statement.kind, signature, file, line: statement.line });
+            }
+            break;
+          }
+          case "local": {
+            const symbol = symbols.find((s) => s.name === statement.local);
+            const binding = imports.get(statement.local);
+            result.set(
+              statement.name,
+              symbol
+                ? declared(statement.name, symbol)
+                : binding
+                  ? await imported(statement.name, binding.imported, binding.from, statement.line, statement.local)
+                  : { name: statement.name, file, line: statement.line }
+            );
+            break;
+          }
+          case "reexport":
+            result.set(
+              statement.name,
+              await imported(statement.name, statement.imported, statement.from, statement.line)
+            );
+            break;
+          case "namespace":
+            result.set(statement.name, await imported(statement.name, "*", statement.from, statement.line));
+            break;
+        }
+      }
+
+      // `export *` never overrides explicit exports, nor re-exports default
+      for (const statement of exports) {
+        if (statement.type !== "star") continue;
+        const target = await follow(file, statement.from);
+        if (!target) {
+          result.set(`*:${statement.from}`, { name: "*", file, line: statement.line, from: statement.from });
+          continue;
+        }
+        for (const [name, symbol] of await exportsOf(target)) {
+          if (name !== "default" && !result.has(name)) result.set(name, symbol);
+        }
+      }
+
+      pending.delete(file);
+      done.set(file, result);
+      return result;
+    };
+
+    return exportsOf;
+  };
+
+  // Run an ast-grep rule over source files, calling visit for each file
+  // with matches; visit returns false to stop
+  const walkAst = async (
+    sources: Source[],
+    rule: string | AstGrepRule,
+    options: Omit<AstGrepOptions, "sources" | "limit">,
+    visit: (source: Source, file: string, content: string, nodes: SgNode[]) => boolean
+  ): Promise<void> => {
+    const { glob: globPattern, lang, constraints, utils } = options;
+
+    // Normalize lang aliases; requested languages must have a parser
+    const langs = lang ? (Array.isArray(lang) ? lang : [lang]).map(normalizeLang) : null;
+    langs?.forEach(requireParser);
+
+    // Plain patterns are passed as-is; rule objects and constraints need a config
+    const matcher: string | NapiConfig =
+      typeof rule === "string" && !constraints && !utils
+        ? rule
+        : {
+            rule: (typeof rule === "string" ? { pattern: rule } : rule) as NapiConfig["rule"],
+            constraints: constraints as NapiConfig["constraints"],
+            utils: utils as NapiConfig["utils"],
+          };
+
+    // Failures reported only if no file could be searched at all
+    let unavailable: LanguageUnavailableError | undefined;
+    let ruleError: unknown;
+    let searched = 0;
+
+    for (const source of sources) {
+      const sourcePath = resolve(opensrcDir, source.path);
+
+      // Get files using existing files() method logic
+      const fileEntries = visible(
+        await fg(globPattern ?? "**/*", {
+          cwd: sourcePath,
+          dot: false,
+          ignore: ignored(),
+          stats: true,
+          onlyFiles: true,
+        })
+      );
+
+      for (const entry of fileEntries) {
+        const filePath = typeof entry === "string" ? entry : entry.path;
+
+        // Determine language from extension; skip files of other languages
+        const fileLang = langForFile(filePath);
+        if (!fileLang) continue;
+        if (langs && !langs.includes(fileLang)) continue;
+
+        let parser;
+        try {
+          parser = requireParser(fileLang);
+        } catch (e) {
+          if (!LanguageUnavailableError.is(e)) throw e;
+          unavailable ??= e;
+          continue;
+        }
+
+        // Parse and search
+        let content: string;
+        let nodes: SgNode[];
+        try {
+          const fullPath = resolveWithin(sourcePath, filePath);
+          content = await readSourceFile(fullPath, filePath, usage);
+          const root = parse(parser, content).root();
+          try {
+            nodes = root.findAll(matcher);
+          } catch (e) {
+            // Rule invalid for this language (e.g. a pattern that doesn't parse)
+            ruleError ??= e;
+            continue;
+          }
+        } catch (e) {
+          if (BudgetExceededError.is(e)) throw e;
+          // Skip unreadable files
+          continue;
+        }
+        searched++;
+
+        if (nodes.length > 0 && !visit(source, filePath, content, nodes)) return;
+      }
+    }
+
+    if (searched === 0 && ruleError) {
+      throw new InvalidPatternError(
+        ruleText(rule),
+        ruleError instanceof Error ? ruleError.message : String(ruleError)
+      );
+    }
+    if (searched === 0 && unavailable) throw unavailable;
+  };
+
   return {
     // ── Read Operations ──────────────────────────────────────────────────
 
@@ -127,33 +801,27 @@ export function createOpensrcAPI(
 
     has: (name: string, version?: string): boolean => {
       const sources = getSources();
-      return sources.some(
-        (s) =>
-          s.name === name &&
-          (!version || s.version === version || s.ref === version)
-      );
+      if (!version) return findSource(sources, name) !== undefined;
+      return sources.some((s) => s.name === name && versionOf(s) === version);
     },
 
     get: (name: string): Source | undefined => {
-      return getSources().find((s) => s.name === name);
+      return findSource(getSources(), name);
     },
 
     files: async (sourceName: string, glob = "**/*"): Promise<FileEntry[]> => {
-      const source = getSources().find((s) => s.name === sourceName);
-      if (!source) {
-        throw new Error(`Source not found: ${sourceName}`);
-      }
+      const source = requireSource(sourceName);
 
-      const sourcePath = join(opensrcDir, source.path);
+      const sourcePath = resolve(opensrcDir, source.path);
       const entries = await fg(glob, {
         cwd: sourcePath,
         dot: false,
-        ignore: ["**/node_modules/**", "**/.git/**"],
+        ignore: ignored(),
         stats: true,
         onlyFiles: false,
       });
 
-      return entries.map((e: Entry) => ({
+      return visible(entries).map((e: Entry) => ({
         path: e.path,
         size: e.stats?.size ?? 0,
         isDirectory: e.stats?.isDirectory() ?? false,
@@ -165,10 +833,7 @@ export function createOpensrcAPI(
       options: { depth?: number; pattern?: string } = {}
     ): Promise<TreeNode> => {
       const { depth = 3, pattern } = options;
-      const source = getSources().find((s) => s.name === sourceName);
-      if (!source) {
-        throw new Error(`Source not found: ${sourceName}`);
-      }
+      const source = requireSource(sourceName);
 
       const sourcePath = join(opensrcDir, source.path);
 
@@ -177,13 +842,13 @@ export function createOpensrcAPI(
       const entries = await fg([globPattern, ...Array(depth - 1).fill(0).map((_, i) => Array(i + 1).fill("*").join("/"))], {
         cwd: sourcePath,
         dot: false,
-        ignore: ["**/node_modules/**", "**/.git/**"],
+        ignore: ignored(),
         onlyFiles: false,
         markDirectories: true,
       });
 
       // Build tree structure
-      const root: TreeNode = { name: source.name, type: "dir", children: [] };
+      const root: TreeNode = { name: source.id, type: "dir", children: [] };
       const nodeMap = new Map<string, TreeNode>();
       nodeMap.set("", root);
 
@@ -231,175 +896,261 @@ export function createOpensrcAPI(
       return root;
     },
 
-    read: async (sourceName: string, filePath: string): Promise<string> => {
-      log.debug("read", { source: sourceName, file: filePath });
-      const source = getSources().find((s) => s.name === sourceName);
-      if (!source) {
-        throw new Error(`Source not found: ${sourceName}`);
-      }
+    read: async (
+      sourceName: string,
+      filePath: string,
+      options: ReadOptions = {}
+    ): Promise<string> => {
+      log.debug("read", { source: sourceName, file: filePath, ...options });
+      const source = requireSource(sourceName);
 
       const sourcePath = resolve(opensrcDir, source.path);
-      const fullPath = resolve(sourcePath, filePath);
+      return sliceLines(await readFileWithin(sourcePath, filePath), options);
+    },
 
-      // Verify resolved path is within source directory (path traversal protection)
-      if (!fullPath.startsWith(sourcePath + "/") && fullPath !== sourcePath) {
-        throw new Error(`Path traversal not allowed: ${filePath}`);
+    readSymbol: async (
+      sourceName: string,
+      filePath: string,
+      name: string,
+      options: Pick<ReadOptions, "lineNumbers"> = {}
+    ): Promise<string> => {
+      log.debug("readSymbol", { source: sourceName, file: filePath, name });
+      const { content, symbols } = await outlineFile(requireSource(sourceName), filePath);
+
+      const symbol = findSymbol(symbols, name);
+      if (!symbol) {
+        throw new SymbolNotFoundError(name, filePath, closestMatches(name, symbolNames(symbols)));
       }
 
-      return readFile(fullPath, "utf8");
+      return sliceLines(content, { ...options, startLine: symbol.line, endLine: symbol.endLine });
     },
 
-    grep: async (
+    grep: (async (
       pattern: string,
-      options: {
-        sources?: string[];
-        include?: string;
-        maxResults?: number;
-      } = {}
-    ): Promise<GrepResult[]> => {
-      const { sources: sourceFilter, include, maxResults = 100 } = options;
-      log.debug("grep", { pattern, include, sources: sourceFilter, maxResults });
-      const sources = getSources().filter(
-        (s) => !sourceFilter || sourceFilter.includes(s.name)
-      );
-
-      const results: GrepResult[] = [];
-      const regex = new RegExp(pattern, "i");
+      options: GrepOptions = {}
+    ): Promise<GrepResult[] | GrepFileMatch[] | GrepCount[]> => {
+      const {
+        sources: sourceFilter,
+        include,
+        exclude,
+        maxResults = 100,
+        filesOnly = false,
+        count = false,
+      } = options;
+      log.debug("grep", { pattern, include, exclude, sources: sourceFilter, maxResults });
+      const sources = sourceFilter
+        ? sourceFilter.map(requireSource)
+        : getSources();
+
+      const regex = compileGrepPattern(pattern, options);
+      const excludes = exclude === undefined ? [] : Array.isArray(exclude) ? exclude : [exclude];
+      // Context lines are irrelevant when only files or counts are returned
+      const searchOptions = filesOnly || count ? { ...options, before: 0, after: 0 } : options;
+
+      const results: (GrepResult | GrepFileMatch | GrepCount)[] = [];
 
       for (const source of sources) {
         if (results.length >= maxResults) break;
 
-        const sourcePath = join(opensrcDir, source.path);
-        const files = await fg(include ?? "**/*", {
-          cwd: sourcePath,
-          ignore: ["**/node_modules/**", "**/.git/**", "**/*.min.js"],
-          onlyFiles: true,
-        });
+        const sourcePath = resolve(opensrcDir, source.path);
+        const globbed = visible(
+          await fg(include ?? "**/*", {
+            cwd: sourcePath,
+            ignore: ignored("**/*.min.js", ...excludes),
+            onlyFiles: true,
+            baseNameMatch: true,
+          })
+        );
+
+        // Narrow to files that can match using the trigram index, if fresh
+        const index = await loadIndex(opensrcDir, source);
+        const files =
+          index && !isStale(index, source)
+            ? filterCandidates(index, globbed, pattern, options)
+            : globbed;
 
         for (const file of files) {
           if (results.length >= maxResults) break;
 
           try {
-            const content = await readFile(join(sourcePath, file), "utf8");
-            const lines = content.split("\n");
-
-            for (let i = 0; i < lines.length; i++) {
-              if (regex.test(lines[i])) {
-                results.push({
-                  source: source.name,
-                  file,
-                  line: i + 1,
-                  content: lines[i].trim().slice(0, 200),
-                });
-                if (results.length >= maxResults) break;
-              }
+            const content = await readSourceFile(join(sourcePath, file), file, usage);
+            if (isBinary(content)) continue;
+
+            const limit = filesOnly ? 1 : count ? Infinity : maxResults - results.length;
+            const start = performance.now();
+            const found = searchContent(content, regex, searchOptions, limit);
+            usage.chargeRegex(performance.now() - start);
+            if (found.length === 0) continue;
+
+            usage.countMatches(found.length);
+            if (filesOnly) {
+              results.push({ source: source.id, file });
+            } else if (count) {
+              results.push({ source: source.id, file, count: found.length });
+            } else {
+              results.push(...found.map((m) => ({ source: source.id, file, ...m })));
             }
-          } catch {
+          } catch (e) {
+            if (BudgetExceededError.is(e)) throw e;
             // skip unreadable files
           }
         }
       }
 
-      return results;
-    },
+      return results as GrepResult[] | GrepFileMatch[] | GrepCount[];
+    }) as OpensrcAPI["grep"],
 
-    astGrep: async (
-      sourceName: string,
-      pattern: string,
-      options: AstGrepOptions = {}
-    ): Promise<AstGrepMatch[]> => {
-      const { glob: globPattern, lang, limit = 1000 } = options;
-      log.debug("astGrep", { source: sourceName, pattern, lang, limit });
-
-      // Validate source
-      const source = getSources().find((s) => s.name === sourceName);
-      if (!source) {
-        throw new Error(`Source not found: ${sourceName}`);
-      }
+    astGrep: (async (...args: unknown[]): Promise<AstGrepMatch[]> => {
+      const { sourceNames, rule, options } = parseAstGrepArgs(args);
+      const { lang, limit = 1000 } = options;
+      log.debug("astGrep", { sources: sourceNames, rule, lang, limit });
 
-      // Normalize lang to array of Lang values
-      const langs: Lang[] | null = lang
-        ? (Array.isArray(lang) ? lang : [lang])
-            .map((l) => STR_LANG[l.toLowerCase()])
-            .filter((l): l is Lang => l !== undefined)
-        : null;
+      // Validate sources
+      const sources = sourceNames ? sourceNames.map(requireSource) : getSources();
 
-      const sourcePath = resolve(opensrcDir, source.path);
+      const metavarNames = parseMetavars(ruleText(rule));
       const matches: AstGrepMatch[] = [];
-      const metavarNames = parseMetavars(pattern);
-
-      // Get files using existing files() method logic
-      const fileEntries = await fg(globPattern ?? "**/*", {
-        cwd: sourcePath,
-        dot: false,
-        ignore: ["**/node_modules/**", "**/.git/**"],
-        stats: true,
-        onlyFiles: true,
+      if (limit <= 0) return matches;
+
+      await walkAst(sources, rule, options, (source, file, _content, nodes) => {
+        usage.countMatches(Math.min(nodes.length, limit - matches.length));
+        for (const node of nodes) {
+          if (matches.length >= limit) break;
+          const range = node.range();
+          matches.push({
+            source: source.id,
+            file,
+            line: range.start.line + 1,
+            column: range.start.column + 1,
+            endLine: range.end.line + 1,
+            endColumn: range.end.column + 1,
+            text: node.text(),
+            metavars: extractMetavars(node, metavarNames),
+          });
+        }
+        return matches.length < limit;
       });
 
-      for (const entry of fileEntries) {
-        if (matches.length >= limit) break;
+      log.debug("astGrep complete", { matches: matches.length });
+      return matches;
+    }) as OpensrcAPI["astGrep"],
+
+    astRewrite: async (
+      sourceName: string | string[],
+      rule: string | AstGrepRule,
+      replacement: string,
+      options: AstRewriteOptions = {}
+    ): Promise<AstRewriteResult> => {
+      const { maxFiles = 20, maxEdits = 200, context = 3 } = options;
+      log.debug("astRewrite", { source: sourceName, rule, replacement, maxFiles, maxEdits });
+
+      const sources = (Array.isArray(sourceName) ? sourceName : [sourceName]).map(requireSource);
+      const files: AstRewriteFile[] = [];
+      let totalEdits = 0;
+      let truncated = false;
+
+      // Diffs are computed in memory; nothing is written to disk
+      await walkAst(sources, rule, options, (source, file, content, nodes) => {
+        if (files.length >= maxFiles || totalEdits >= maxEdits) {
+          truncated = true;
+          return false;
+        }
 
-        const filePath = typeof entry === "string" ? entry : entry.path;
-        const ext = extname(filePath);
-        const extLang = EXT_LANG[ext];
+        const outermost = outermostNodes(nodes);
+        const edited = outermost.slice(0, maxEdits - totalEdits);
+        if (edited.length < outermost.length) truncated = true;
+
+        let rewritten = "";
+        let last = 0;
+        for (const node of edited) {
+          const range = node.range();
+          rewritten += content.slice(last, range.start.index);
+          rewritten += expandReplacement(replacement, node, content);
+          last = range.end.index;
+        }
+        rewritten += content.slice(last);
+        if (rewritten === content) return true;
+
+        usage.countMatches(edited.length);
+        totalEdits += edited.length;
+        files.push({
+          source: source.id,
+          file,
+          edits: edited.length,
+          diff: unifiedDiff(`a/${file}`, `b/${file}`, content, rewritten, context),
+        });
+        return true;
+      });
 
-        // Skip if lang specified but file extension doesn't match any
-        if (langs && langs.length > 0 && !langs.includes(extLang)) continue;
+      log.debug("astRewrite complete", { files: files.length, edits: totalEdits, truncated });
+      return { files, totalEdits, truncated };
+    },
 
-        // Determine language from extension
-        const fileLang = extLang;
-        if (!fileLang) continue;
+    outline: async (sourceName: string, filePath: string): Promise<OutlineSymbol[]> => {
+      log.debug("outline", { source: sourceName, file: filePath });
+      const { symbols } = await outlineFile(requireSource(sourceName), filePath);
+      return symbols;
+    },
 
-        // Parse and search
-        try {
-          const fullPath = resolve(sourcePath, filePath);
+    outlineMany: async (
+      sourceName: string,
+      glob: string,
+      options: { limit?: number } = {}
+    ): Promise<FileOutline[]> => {
+      const { limit = 50 } = options;
+      log.debug("outlineMany", { source: sourceName, glob, limit });
+      const source = requireSource(sourceName);
+      const sourcePath = resolve(opensrcDir, source.path);
 
-          // Path traversal check
-          if (!fullPath.startsWith(sourcePath + "/") && fullPath !== sourcePath) {
-            continue;
-          }
+      const files = visible(
+        await fg(glob, {
+          cwd: sourcePath,
+          dot: false,
+          ignore: ignored(),
+          onlyFiles: true,
+        })
+      );
 
-          const content = await readFile(fullPath, "utf-8");
-          const root = parse(fileLang, content).root();
-          const nodes = root.findAll(pattern);
-
-          for (const node of nodes) {
-            if (matches.length >= limit) break;
-            const range = node.range();
-            matches.push({
-              file: filePath,
-              line: range.start.line + 1,
-              column: range.start.column + 1,
-              endLine: range.end.line + 1,
-              endColumn: range.end.column + 1,
-              text: node.text(),
-              metavars: extractMetavars(node, metavarNames),
-            });
-          }
-        } catch {
-          // Skip unparseable files
+      const outlines: FileOutline[] = [];
+      for (const file of files.sort()) {
+        if (outlines.length >= limit) break;
+
+        // Skip files without outline support or an installed parser
+        const lang = langForFile(file);
+        if (!lang || !hasOutline(lang)) continue;
+        let parser;
+        try {
+          parser = requireParser(lang);
+        } catch (e) {
+          if (!LanguageUnavailableError.is(e)) throw e;
           continue;
         }
+
+        try {
+          const content = await readSourceFile(resolveWithin(sourcePath, file), file, usage);
+          outlines.push({ file, symbols: outlineOf(lang, parse(parser, content).root(), content) });
+        } catch (e) {
+          if (BudgetExceededError.is(e)) throw e;
+          // Skip unreadable files
+        }
       }
 
-      log.debug("astGrep complete", { matches: matches.length });
-      return matches;
+      return outlines;
     },
 
     resolve: async (spec: string): Promise<ParsedSpec> => {
-      const inputType = detectInputType(spec);
+      const remote = parseRemoteSpec(spec, projectDir);
+      if (remote) {
+        return { type: "repo", name: remote.name, ref: remote.ref, repoUrl: remote.repository };
+      }
 
-      if (inputType === "repo") {
-        const cleanSpec = spec
-          .replace(/^github:/, "")
-          .replace(/^https?:\/\/github\.com\//, "");
-        const [ownerRepo, ref] = cleanSpec.split("@");
+      const repo = detectInputType(spec) === "repo" ? parseRepoSpec(spec) : null;
+      if (repo) {
         return {
           type: "repo",
-          name: `github.com/${ownerRepo}`,
-          ref,
-          repoUrl: `https://github.com/${ownerRepo}`,
+          name: `${repo.host}/${repo.owner}/${repo.repo}`,
+          ref: repo.ref,
+          repoUrl: `https://${repo.host}/${repo.owner}/${repo.repo}`,
         };
       }
 
@@ -411,6 +1162,439 @@ export function createOpensrcAPI(
       };
     },
 
+    resolveImport: async (
+      sourceName: string,
+      fromFile: string,
+      specifier: string
+    ): Promise<ImportResolution> => {
+      log.debug("resolveImport", { source: sourceName, file: fromFile, specifier });
+      const source = requireSource(sourceName);
+      const sourcePath = resolve(opensrcDir, source.path);
+      const fullPath = resolveWithin(sourcePath, fromFile);
+      try {
+        await stat(fullPath);
+      } catch {
+        throw new FileNotFoundError(fromFile);
+      }
+
+      return importResolver.resolve(getSources(), source, relative(sourcePath, fullPath), specifier);
+    },
+
+    exports: async (sourceName: string, options: { package?: string } = {}): Promise<EntryPoint[]> => {
+      log.debug("exports", { source: sourceName, package: options.package });
+      const source = requireSource(sourceName);
+      const { name, entries } = await importResolver.entryPoints(source, options.package);
+      const exportsOf = exportWalker(source);
+
+      const result: EntryPoint[] = [];
+      for (const { subpath, file } of entries) {
+        result.push({
+          specifier: subpath === "." ? name : `${name}/${subpath.slice(2)}`,
+          subpath,
+          file,
+          exports: [...(await exportsOf(file)).values()],
+        });
+      }
+      return result;
+    },
+
+    imports: async (sourceName: string, options: { file?: string } = {}): Promise<ImportGraph> => {
+      log.debug("imports", { source: sourceName, file: options.file });
+      const source = requireSource(sourceName);
+      const sourcePath = resolve(opensrcDir, source.path);
+
+      let focus: string | undefined;
+      if (options.file !== undefined) {
+        const fullPath = resolveWithin(sourcePath, options.file);
+        try {
+          await stat(fullPath);
+        } catch {
+          throw new FileNotFoundError(options.file);
+        }
+        focus = relative(sourcePath, fullPath);
+        const lang = langForFile(focus);
+        if (!lang || !MODULE_LANGS.has(lang)) {
+          throw new LanguageUnavailableError(lang ?? (extname(focus) || focus), "imports supports JavaScript and TypeScript files");
+        }
+      }
+
+      const files = visible(
+        await fg("**/*.{js,jsx,mjs,cjs,ts,tsx,mts,cts}", {
+          cwd: sourcePath,
+          ignore: ignored(),
+          onlyFiles: true,
+        })
+      ).sort();
+
+      const edges: ImportEdge[] = [];
+      for (const file of files) {
+        let root: SgNode;
+        try {
+          const content = await readSourceFile(join(sourcePath, file), file, usage);
+          root = parse(requireParser(langForFile(file)!), content).root();
+        } catch (e) {
+          if (BudgetExceededError.is(e)) throw e;
+          // skip unreadable files
+          continue;
+        }
+        for (const { specifier, line, kind, typeOnly } of moduleSpecifiers(root)) {
+          let to: string | undefined;
+          try {
+            const target = await importResolver.resolve(getSources(), source, file, specifier);
+            if (["relative", "paths", "workspace"].includes(target.kind)) to = target.file;
+          } catch (e) {
+            if (!ImportResolutionError.is(e)) throw e;
+          }
+          edges.push({ from: file, to, specifier, line, kind, typeOnly });
+        }
+      }
+
+      // Runtime graph for cycle detection; full graph for dependencies
+      const runtime = new Map<string, string[]>(files.map((f) => [f, []]));
+      const outgoing = new Map<string, string[]>(files.map((f) => [f, []]));
+      for (const edge of edges) {
+        if (!edge.to) continue;
+        outgoing.get(edge.from)!.push(edge.to);
+        if (!edge.typeOnly) runtime.get(edge.from)!.push(edge.to);
+      }
+
+      let scope = new Set(files);
+      let importers: string[] | undefined;
+      let dependencies: string[] | undefined;
+      if (focus) {
+        const seen = new Set([focus]);
+        const queue = [focus];
+        while (queue.length > 0) {
+          for (const next of outgoing.get(queue.shift()!) ?? []) {
+            if (!seen.has(next)) {
+              seen.add(next);
+              queue.push(next);
+            }
+          }
+        }
+        scope = seen;
+        dependencies = [...seen].filter((f) => f !== focus).sort();
+        importers = [...new Set(edges.filter((e) => e.to === focus).map((e) => e.from))].sort();
+      }
+
+      const scoped = edges.filter((e) => scope.has(e.from));
+      const packages = new Set(
+        scoped
+          .filter((e) => !e.to && !/^(\.|\/|node:)/.test(e.specifier) && !builtinModules.includes(e.specifier))
+          .map((e) => splitPackageSpecifier(e.specifier).name)
+      );
+
+      return {
+        files: [...scope].sort(),
+        edges: scoped,
+        packages: [...packages].sort(),
+        cycles: importCycles(runtime).filter((group) => scope.has(group[0])),
+        importers,
+        dependencies,
+      };
+    },
+
+    definition: async (
+      name: string,
+      options: SymbolQueryOptions = {}
+    ): Promise<SymbolDefinition[]> => {
+      const { sources, limit = 20 } = options;
+      log.debug("definition", { name, sources, limit });
+      const results = findDefinitions(await symbolIndexesFor(sources), name).slice(0, limit);
+      usage.countMatches(results.length);
+      return results;
+    },
+
+    references: async (
+      name: string,
+      options: SymbolQueryOptions = {}
+    ): Promise<SymbolReference[]> => {
+      const { sources, limit = 200 } = options;
+      log.debug("references", { name, sources, limit });
+      const results = findReferences(await symbolIndexesFor(sources), name).slice(0, limit);
+      usage.countMatches(results.length);
+      return results;
+    },
+
+    symbols: async (
+      sourceName: string,
+      query: string,
+      options: { kinds?: OutlineSymbolKind[]; limit?: number } = {}
+    ): Promise<SymbolDefinition[]> => {
+      const { kinds, limit = 50 } = options;
+      log.debug("symbols", { source: sourceName, query, kinds, limit });
+      const source = requireSource(sourceName);
+      const index = await requireSymbolIndex(source);
+      const results = searchSymbols(source, index, query, kinds).slice(0, limit);
+      usage.countMatches(results.length);
+      return results;
+    },
+
+    indexStatus: async (sourceNames?: string[]): Promise<IndexStatus[]> => {
+      const sources = sourceNames ? sourceNames.map(requireSource) : getSources();
+      return Promise.all(
+        sources.map(async (source) => {
+          const status = await indexStatus(opensrcDir, source);
+          const symbols = await symbolIndexStatus(opensrcDir, source);
+          return symbols ? { ...status, symbols } : status;
+        })
+      );
+    },
+
+    diff: async (a: string, b: string, options: DiffOptions = {}): Promise<DiffResult> => {
+      const { glob: globPattern = "**/*", stat: statOnly = false, context = 3 } = options;
+      log.debug("diff", { a, b, glob: globPattern, stat: statOnly });
+      const oldRoot = resolve(opensrcDir, requireSource(a).path);
+      const newRoot = resolve(opensrcDir, requireSource(b).path);
+
+      const list = (cwd: string) =>
+        fg(globPattern, { cwd, dot: false, ignore: ignored(), onlyFiles: true }).then(visible);
+      const [oldFiles, newFiles] = await Promise.all([list(oldRoot), list(newRoot)]);
+      const oldSet = new Set(oldFiles);
+      const newSet = new Set(newFiles);
+
+      // Changed files with the texts their diffs are made from
+      const changes: { entry: DiffFile; oldText: string; newText: string }[] = [];
+
+      for (const file of newFiles.filter((f) => oldSet.has(f))) {
+        const oldText = await readSourceFile(join(oldRoot, file), file, usage);
+        const newText = await readSourceFile(join(newRoot, file), file, usage);
+        if (oldText === newText) continue;
+        const binary = isBinary(oldText) || isBinary(newText);
+        const counts = binary ? { additions: 0, deletions: 0 } : diffStat(oldText, newText);
+        changes.push({ entry: { file, status: "modified", ...counts, ...(binary && { binary }) }, oldText, newText });
+      }
+
+      const removed = new Map<string, string>();
+      for (const file of oldFiles.filter((f) => !newSet.has(f))) {
+        removed.set(file, await readSourceFile(join(oldRoot, file), file, usage));
+      }
+
+      // Added files are renames of removed ones with the same content, or
+      // with the same basename and mostly the same lines
+      for (const file of newFiles.filter((f) => !oldSet.has(f))) {
+        const newText = await readSourceFile(join(newRoot, file), file, usage);
+        const binary = isBinary(newText);
+
+        let oldFile = [...removed].find(([, text]) => text === newText)?.[0];
+        let counts = { additions: 0, deletions: 0 };
+        if (!oldFile && !binary) {
+          const candidates = [...removed.keys()]
+            .filter((f) => basename(f) === basename(file) && !isBinary(removed.get(f)!))
+            .slice(0, MAX_RENAME_CANDIDATES);
+          for (const candidate of candidates) {
+            const oldText = removed.get(candidate)!;
+            const stat = diffStat(oldText, newText);
+            const changed = (stat.additions + stat.deletions) / (lineCount(oldText) + lineCount(newText) || 1);
+            if (changed <= RENAME_SIMILARITY) {
+              oldFile = candidate;
+              counts = stat;
+              break;
+            }
+          }
+        }
+
+        if (oldFile) {
+          const oldText = removed.get(oldFile)!;
+          removed.delete(oldFile);
+          changes.push({ entry: { file, status: "renamed", oldFile, ...counts }, oldText, newText });
+        } else {
+          const additions = binary ? 0 : lineCount(newText);
+          changes.push({ entry: { file, status: "added", additions, deletions: 0, ...(binary && { binary }) }, oldText: "", newText });
+        }
+      }
+
+      for (const [file, oldText] of removed) {
+        const binary = isBinary(oldText);
+        const deletions = binary ? 0 : lineCount(oldText);
+        changes.push({ entry: { file, status: "removed", additions: 0, deletions, ...(binary && { binary }) }, oldText, newText: "" });
+      }
+
+      changes.sort((x, y) => x.entry.file.localeCompare(y.entry.file));
+      const result: DiffResult = {
+        files: changes.map((c) => c.entry),
+        additions: changes.reduce((n, c) => n + c.entry.additions, 0),
+        deletions: changes.reduce((n, c) => n + c.entry.deletions, 0),
+        truncated: false,
+      };
+      if (statOnly) return result;
+
+      // Add diffs in file order while they fit the response size limit
+      let room = MAX_RESPONSE_CHARS - JSON.stringify(result, null, 2).length;
+      for (const { entry, oldText, newText } of changes) {
+        if (entry.binary || oldText === newText) continue;
+        const diff = unifiedDiff(
+          entry.status === "added" ? "/dev/null" : `a/${entry.oldFile ?? entry.file}`,
+          entry.status === "removed" ? "/dev/null" : `b/${entry.file}`,
+          oldText,
+          newText,
+          context
+        );
+        const size = JSON.stringify(diff).length + 16;
+        if (size > room) {
+          result.truncated = true;
+          continue;
+        }
+        entry.diff = diff;
+        room -= size;
+      }
+      return result;
+    },
+
+    usages: async (sourceName: string, options: UsagesOptions = {}): Promise<UsagesResult> => {
+      const { symbols } = options;
+      log.debug("usages", { source: sourceName, symbols });
+      const source = requireSource(sourceName);
+      const modules = await moduleNamesOf(source);
+
+      // A module is the source's when it is one of its names or below one
+      const separators: Record<Ecosystem, string> = { js: "/", python: ".", rust: "::" };
+      const matchers = new Map<Ecosystem, (module: string) => boolean>();
+      for (const { ecosystem } of modules) {
+        const names = modules.filter((m) => m.ecosystem === ecosystem).map((m) => m.name);
+        const separator = separators[ecosystem];
+        matchers.set(ecosystem, (module) => names.some((n) => module === n || module.startsWith(n + separator)));
+      }
+
+      // Project files of those ecosystems, skipping the store if it lives in the project
+      await projectFilter.load();
+      const store = relative(projectDir, opensrcDir);
+      const files = (
+        await fg("**/*.{js,jsx,mjs,cjs,ts,tsx,mts,cts,py,pyi,rs}", {
+          cwd: projectDir,
+          ignore: [
+            ...WALK_IGNORE,
+            ...(store && !store.startsWith("..") ? [`${store}/**`] : []),
+            ...projectFilter.ignore,
+          ],
+          onlyFiles: true,
+        })
+      )
+        .filter((file) => !projectFilter.hidden(file))
+        .sort();
+
+      type Use = { module: string; imported: string; member?: string; file: string; line: number; text: string };
+      const imports: UsagesResult["imports"] = [];
+      const uses: Use[] = [];
+      let unavailable: LanguageUnavailableError | undefined;
+      let searched = 0;
+
+      for (const file of files) {
+        const lang = langForFile(file)!;
+        const ecosystem = USAGE_LANGS[lang];
+        const matches = ecosystem && matchers.get(ecosystem);
+        if (!matches) continue;
+
+        let parser;
+        try {
+          parser = requireParser(lang);
+        } catch (e) {
+          if (!LanguageUnavailableError.is(e)) throw e;
+          unavailable ??= e;
+          continue;
+        }
+
+        let content: string;
+        try {
+          content = await readSourceFile(join(projectDir, file), file, usage);
+        } catch (e) {
+          if (BudgetExceededError.is(e)) throw e;
+          continue;
+        }
+        searched++;
+        // Files never naming the source can't import it
+        if (!modules.some((m) => content.includes(m.name))) continue;
+
+        const found = scanUsages(lang, parse(parser, content).root(), matches);
+        const lines = content.split("\n");
+        imports.push(...found.imports.map((i) => ({ file, line: i.line, module: i.module })));
+        for (const use of found.uses) {
+          uses.push({ ...use, file, text: lines[use.line - 1].trim().slice(0, 200) });
+        }
+      }
+      if (searched === 0 && unavailable) throw unavailable;
+
+      // Name each use after the export it reaches and find its declaration:
+      // through the package's entry points for JS, else the symbol index
+      const exportsOf = exportWalker(source);
+      const entries = new Map<string, Promise<Map<string, ExportedSymbol> | undefined>>();
+      const entryExports = (specifier: string) => {
+        let found = entries.get(specifier);
+        if (!found) {
+          const { name, subpath } = splitPackageSpecifier(specifier);
+          found = importResolver
+            .entryPoints(source, name)
+            .then(async ({ entries }) => {
+              const entry = entries.find((e) => e.subpath === subpath);
+              return entry ? exportsOf(entry.file) : undefined;
+            })
+            .catch((e) => {
+              if (FileNotFoundError.is(e)) return undefined;
+              throw e;
+            });
+          entries.set(specifier, found);
+        }
+        return found;
+      };
+      const indexed = async (name: string): Promise<SymbolUsage["definition"]> => {
+        const index = await requireSymbolIndex(source);
+        const definitions = findDefinitions([{ source, index }], name);
+        const definition = definitions.find((d) => d.exported) ?? definitions[0];
+        return definition && { file: definition.file, line: definition.line };
+      };
+
+      const resolved = new Map<string, { name: string; definition?: SymbolUsage["definition"] }>();
+      const resolveUse = async ({ module, imported, member }: Use) => {
+        const key = `${module}\0${imported}\0${member ?? ""}`;
+        const cached = resolved.get(key);
+        if (cached) return cached;
+
+        let result: { name: string; definition?: SymbolUsage["definition"] };
+        const ecosystem = modules.find((m) => matchers.get(m.ecosystem)!(module))?.ecosystem;
+        const exports = ecosystem === "js" ? await entryExports(module) : undefined;
+        let symbol = exports?.get(imported === "*" ? member! : imported);
+        if (imported !== "*" && member && symbol?.kind === "module") {
+          symbol = (await exportsOf(symbol.file)).get(member);
+          result = { name: `${imported}.${member}` };
+        } else {
+          result = { name: imported === "*" ? member! : imported };
+        }
+        if (symbol) {
+          if (!symbol.from) result.definition = { file: symbol.file, line: symbol.line };
+        } else {
+          result.definition = await indexed(result.name.split(".").pop()!);
+        }
+        resolved.set(key, result);
+        return result;
+      };
+
+      const bySymbol = new Map<string, SymbolUsage>();
+      for (const use of uses) {
+        // A bare namespace (`z` passed around) names no export
+        if (use.imported === "*" && !use.member) continue;
+        const { name, definition } = await resolveUse(use);
+        if (symbols && !symbols.some((s) => name === s || name.startsWith(`${s}.`))) continue;
+        const key = `${use.module}\0${name}`;
+        let symbol = bySymbol.get(key);
+        if (!symbol) {
+          symbol = { name, module: use.module, ...(definition ? { definition } : {}), uses: [] };
+          bySymbol.set(key, symbol);
+        }
+        symbol.uses.push({ file: use.file, line: use.line, text: use.text });
+      }
+
+      const result = [...bySymbol.values()].sort(
+        (a, b) => b.uses.length - a.uses.length || a.name.localeCompare(b.name)
+      );
+      usage.countMatches(result.reduce((n, s) => n + s.uses.length, 0));
+      return {
+        source: source.id,
+        modules: modules.map((m) => m.name),
+        imports: imports.sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line),
+        symbols: result,
+      };
+    },
+
     // ── Mutation Operations ──────────────────────────────────────────────
 
     fetch: async (
@@ -419,32 +1603,19 @@ export function createOpensrcAPI(
     ): Promise<FetchedSource[]> => {
       const specList = Array.isArray(specs) ? specs : [specs];
       log.info("fetch", { specs: specList, modify: options.modify });
+      usage.chargeFetches(specList.length);
 
-      const opensrcResults: OpensrcFetchResult[] = await fetchCommand(
-        specList,
-        {
-          cwd: getOpensrcCwd(),
-          allowModifications: options.modify ?? false,
-        }
-      );
-      log.debug("fetch results", { results: opensrcResults.map(r => ({ pkg: r.package, success: r.success })) });
-
-      const newSources = await readSources();
-      updateSources(newSources);
-
+      const { fetched, sources: newSources } = await fetchSpecs(specList, options.modify ?? false);
       const results: FetchedSource[] = [];
 
-      for (const r of opensrcResults) {
+      for (const { cwd, result: r } of fetched) {
         if (!r.success) {
-          throw new Error(`Failed to fetch ${r.package}: ${r.error ?? "Unknown error"}`);
+          throw new FetchError(r.package, r.error ?? "Unknown error");
         }
 
-        const source = newSources.find(
-          (s) => s.name === r.package || s.path.includes(r.package)
-        );
-
+        const source = fetchedSource(newSources, cwd, r);
         if (!source) {
-          throw new Error(`Source not found after fetch: ${r.package}`);
+          throw new FetchError(r.package, "source not found after fetch");
         }
 
         results.push({
@@ -453,17 +1624,34 @@ export function createOpensrcAPI(
         });
       }
 
+      await indexSources(results.map((r) => r.source));
       return results;
     },
 
+    sync: syncAPI.sync,
+
+    status: syncAPI.status,
+
     remove: async (names: string[]): Promise<RemoveResult> => {
       log.info("remove", { names });
       const sources = getSources();
-      const removed = await removeSourcesByName(names, sources);
-      log.debug("remove complete", { removed });
-      const newSources = sources.filter((s) => !names.includes(s.name));
+
+      // "name@version" removes that version; a bare name removes every version
+      const targets = sources.filter((s) =>
+        names.some((id) => `${s.name}@${versionOf(s)}` === id || s.name === id)
+      );
+      const removedIds = await removeSources(targets);
+      log.debug("remove complete", { removed: removedIds });
+      const removedSources = sources.filter((s) => removedIds.includes(s.id));
+      await writeSources(sources.filter((s) => !removedIds.includes(s.id)));
+      const newSources = await readSources();
       updateSources(newSources);
-      await writeSources(newSources);
+      await dropIndexes(removedSources, newSources);
+
+      // Qualify removed versions when others of the same name were fetched
+      const removed = removedSources.map((s) =>
+        sources.filter((o) => o.name === s.name).length > 1 ? `${s.name}@${versionOf(s)}` : s.id
+      );
       return { success: true, removed };
     },
 
@@ -478,55 +1666,62 @@ export function createOpensrcAPI(
     ): Promise<RemoveResult> => {
       const sources = getSources();
       const removed = await cleanSourcesFiltered(sources, options);
-      const newSources = sources.filter((s) => !removed.includes(s.name));
+      await writeSources(sources.filter((s) => !removed.includes(s.id)));
+      const newSources = await readSources();
       updateSources(newSources);
-      await writeSources(newSources);
+      await dropIndexes(sources.filter((s) => removed.includes(s.id)), newSources);
       return { success: true, removed };
     },
 
+    reindex: async (sourceNames?: string[]): Promise<IndexStatus[]> => {
+      const sources = sourceNames ? sourceNames.map(requireSource) : getSources();
+      log.info("reindex", { sources: sources.map((s) => s.id) });
+      const statuses: IndexStatus[] = [];
+      for (const source of sources) {
+        const status = await buildIndex(opensrcDir, source);
+        const symbols = await buildSymbolIndex(opensrcDir, source);
+        symbolIndexes.delete(source.path);
+        statuses.push({ ...status, symbols });
+      }
+      return statuses;
+    },
+
     readMany: async (
       sourceName: string,
-      paths: string[]
+      paths: (string | ReadRequest)[]
     ): Promise<Record<string, string>> => {
-      const source = getSources().find((s) => s.name === sourceName);
-      if (!source) {
-        throw new Error(`Source not found: ${sourceName}`);
-      }
+      const source = requireSource(sourceName);
 
       const sourcePath = resolve(opensrcDir, source.path);
 
       // Check if path contains glob characters
       const isGlob = (p: string) => /[*?[\]{}]/.test(p);
 
-      // Expand globs to actual file paths
-      const expandedPaths: string[] = [];
-      for (const p of paths) {
-        if (isGlob(p)) {
-          const matches = await fg(p, {
-            cwd: sourcePath,
-            dot: false,
-            ignore: ["**/node_modules/**", "**/.git/**"],
-            onlyFiles: true,
-          });
-          expandedPaths.push(...matches);
+      // Expand globs to actual file paths; each keeps its entry's line range
+      const expandedPaths: ReadRequest[] = [];
+      for (const entry of paths) {
+        const request = typeof entry === "string" ? { path: entry } : entry;
+        if (isGlob(request.path)) {
+          const matches = visible(
+            await fg(request.path, {
+              cwd: sourcePath,
+              dot: false,
+              ignore: ignored(),
+              onlyFiles: true,
+            })
+          );
+          expandedPaths.push(...matches.map((path) => ({ ...request, path })));
         } else {
-          expandedPaths.push(p);
+          expandedPaths.push(request);
         }
       }
 
       const readResults = await Promise.all(
-        expandedPaths.map(async (filePath): Promise<[string, string]> => {
-          const fullPath = resolve(sourcePath, filePath);
-
-          // Verify resolved path is within source directory
-          if (!fullPath.startsWith(sourcePath + "/") && fullPath !== sourcePath) {
-            return [filePath, "[Error: Path traversal not allowed]"];
-          }
-
+        expandedPaths.map(async ({ path: filePath, ...options }): Promise<[string, string]> => {
           try {
-            const content = await readFile(fullPath, "utf8");
-            return [filePath, content];
+            return [filePath, sliceLines(await readFileWithin(sourcePath, filePath), options)];
           } catch (e) {
+            if (BudgetExceededError.is(e)) throw e;
             const msg = e instanceof Error ? e.message : String(e);
             return [filePath, `[Error: ${msg}]`];
           }
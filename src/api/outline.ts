@@ -0,0 +1,484 @@
+import type { SgNode } from "@ast-grep/napi";
+import type { OutlineSymbol, OutlineSymbolKind } from "../types.js";
+
+const MAX_SIGNATURE_CHARS = 200;
+const MAX_DOC_CHARS = 160;
+
+const COMMENT_KINDS = new Set(["comment", "line_comment", "block_comment"]);
+
+// Nodes allowed between a doc comment and its declaration (Rust attributes)
+const ATTRIBUTE_KINDS = new Set(["attribute_item", "inner_attribute_item"]);
+
+// Symbol kinds whose function members are reported as methods
+const TYPE_KINDS = new Set<OutlineSymbolKind>(["class", "interface", "struct", "trait", "impl"]);
+
+interface SymbolRule {
+  /** Symbol kind, or null when this node is not a symbol after all */
+  kind: OutlineSymbolKind | ((node: SgNode) => OutlineSymbolKind | null);
+  name?: (node: SgNode) => string | undefined;
+  /** Node whose start ends the signature (default: the `body` field) */
+  body?: (node: SgNode) => SgNode | null;
+  /** Keyword shown before the signature when the declaration starts outside the node (`const`, `type`) */
+  keyword?: (node: SgNode) => string | undefined;
+  /** Collect nested symbols */
+  container?: boolean;
+}
+
+interface LanguageOutline {
+  symbols: Record<string, SymbolRule>;
+  /** Nodes that never hold outline symbols (lambdas, closures) */
+  opaque: Set<string>;
+  /** Nodes that wrap a declaration and carry its docs (export, decorators, templates) */
+  wrappers: Set<string>;
+  exported(node: SgNode, name: string, parent: OutlineSymbolKind | undefined, file: FileContext): boolean;
+  docstring?(node: SgNode): string | undefined;
+  /** Names exported apart from their declaration (JS/TS export clauses) */
+  exportNames?(root: SgNode): Set<string>;
+}
+
+interface FileContext {
+  spec: LanguageOutline;
+  content: string;
+  exportNames: Set<string>;
+}
+
+const kindOf = (node: SgNode): string => node.kind() as string;
+const field = (node: SgNode, name: string): SgNode | null => node.field(name);
+const fieldText = (name: string) => (node: SgNode) => field(node, name)?.text();
+// Leading keyword of the enclosing declaration (`const x = 1` → "const")
+const parentKeyword = (node: SgNode) => node.parent()?.children()[0]?.text();
+const hasChild = (node: SgNode, kind: string, text?: string) =>
+  node.children().some((c) => kindOf(c) === kind && (text === undefined || c.text() === text));
+
+// Nearest preceding sibling of one of `kinds` (e.g. `private` sections in Ruby/C++)
+function precedingMarker(node: SgNode, kinds: Set<string>): string | undefined {
+  let prev = node.prev();
+  while (prev) {
+    if (kinds.has(kindOf(prev))) return prev.text().replace(/:$/, "").trim();
+    prev = prev.prev();
+  }
+  return undefined;
+}
+
+// ── JavaScript / TypeScript ────────────────────────────────────────────────
+
+const isFunctionValue = (node: SgNode | null) =>
+  node !== null && ["arrow_function", "function_expression", "function", "generator_function"].includes(kindOf(node));
+
+function jsWrapper(node: SgNode, kind: string): boolean {
+  let parent = node.parent();
+  while (parent && ["lexical_declaration", "variable_declaration", "ambient_declaration"].includes(kindOf(parent))) {
+    parent = parent.parent();
+  }
+  return parent?.kind() === kind;
+}
+
+const JS_OUTLINE: LanguageOutline = {
+  symbols: {
+    function_declaration: { kind: "function" },
+    generator_function_declaration: { kind: "function" },
+    function_signature: { kind: "function" },
+    class_declaration: { kind: "class", container: true },
+    abstract_class_declaration: { kind: "class", container: true },
+    class: { kind: "class", container: true },
+    interface_declaration: { kind: "interface", container: true },
+    type_alias_declaration: { kind: "type" },
+    enum_declaration: { kind: "enum" },
+    internal_module: { kind: "module", container: true },
+    module: { kind: "module", container: true },
+    method_definition: {
+      kind: (node) => (fieldText("name")(node) === "constructor" ? "constructor" : "method"),
+    },
+    method_signature: { kind: "method" },
+    abstract_method_signature: { kind: "method" },
+    property_signature: { kind: "property" },
+    public_field_definition: {
+      kind: (node) => (isFunctionValue(field(node, "value")) ? "method" : "property"),
+      body: (node) => field(field(node, "value") ?? node, "body"),
+    },
+    field_definition: {
+      kind: (node) => (isFunctionValue(field(node, "value")) ? "method" : "property"),
+      name: fieldText("property"),
+      body: (node) => field(field(node, "value") ?? node, "body"),
+    },
+    variable_declarator: {
+      kind: (node) => (isFunctionValue(field(node, "value")) ? "function" : "variable"),
+      keyword: parentKeyword,
+      body: (node) => {
+        const value = field(node, "value");
+        return isFunctionValue(value) ? field(value!, "body") : null;
+      },
+    },
+  },
+  opaque: new Set(["arrow_function", "function_expression", "function", "generator_function", "call_expression"]),
+  wrappers: new Set(["export_statement", "lexical_declaration", "variable_declaration", "ambient_declaration"]),
+  exported: (node, name, parent, file) => {
+    if (parent && TYPE_KINDS.has(parent)) {
+      return !name.startsWith("#") && !hasChild(node, "accessibility_modifier", "private");
+    }
+    return jsWrapper(node, "export_statement") || file.exportNames.has(name);
+  },
+  exportNames: exportClauseNames,
+};
+
+// Names listed in `export { a, b as c }` clauses
+function exportClauseNames(root: SgNode): Set<string> {
+  return new Set(
+    root.findAll({ rule: { kind: "export_specifier" } }).map((spec) => field(spec, "name")?.text() ?? "")
+  );
+}
+
+// ── Python ────────────────────────────────────────────────────────────────────
+
+function pythonDocstring(node: SgNode): string | undefined {
+  const first = field(node, "body")?.children().find((c) => c.isNamed());
+  if (first?.kind() !== "expression_statement") return undefined;
+  const str = first.children().find((c) => c.isNamed());
+  if (str?.kind() !== "string") return undefined;
+  return str.children().find((c) => kindOf(c) === "string_content")?.text();
+}
+
+const PYTHON_OUTLINE: LanguageOutline = {
+  symbols: {
+    function_definition: { kind: "function" },
+    class_definition: { kind: "class", container: true },
+    assignment: {
+      kind: (node) => (field(node, "left")?.kind() === "identifier" ? "variable" : null),
+      name: fieldText("left"),
+      body: () => null,
+    },
+  },
+  opaque: new Set(["lambda", "call"]),
+  wrappers: new Set(["decorated_definition", "expression_statement"]),
+  exported: (_node, name) => !name.startsWith("_") || (name.startsWith("__") && name.endsWith("__")),
+  docstring: pythonDocstring,
+};
+
+// ── Rust ──────────────────────────────────────────────────────────────────────
+
+const RUST_OUTLINE: LanguageOutline = {
+  symbols: {
+    function_item: { kind: "function" },
+    function_signature_item: { kind: "function" },
+    struct_item: { kind: "struct" },
+    union_item: { kind: "struct" },
+    enum_item: { kind: "enum" },
+    trait_item: { kind: "trait", container: true },
+    impl_item: {
+      kind: "impl",
+      container: true,
+      name: (node) => {
+        const type = field(node, "type")?.text();
+        const trait = field(node, "trait")?.text();
+        return trait ? `${trait} for ${type}` : type;
+      },
+    },
+    mod_item: { kind: "module", container: true },
+    const_item: { kind: "constant" },
+    static_item: { kind: "constant" },
+    type_item: { kind: "type" },
+    macro_definition: { kind: "macro" },
+  },
+  opaque: new Set(["closure_expression", "macro_invocation"]),
+  wrappers: new Set([]),
+  exported: (node, _name, parent) => {
+    if (kindOf(node) === "impl_item" || parent === "trait") return true;
+    // Trait impl members are as visible as the trait
+    const impl = parent === "impl" ? node.parent()?.parent() : null;
+    return (impl != null && field(impl, "trait") !== null) || hasChild(node, "visibility_modifier");
+  },
+};
+
+// ── Go ────────────────────────────────────────────────────────────────────────
+
+const goNames = (node: SgNode) =>
+  node
+    .children()
+    .filter((c) => kindOf(c) === "identifier")
+    .map((c) => c.text())
+    .join(", ") || undefined;
+
+const GO_OUTLINE: LanguageOutline = {
+  symbols: {
+    function_declaration: { kind: "function" },
+    method_declaration: { kind: "method" },
+    type_spec: {
+      keyword: () => "type",
+      kind: (node) => {
+        const type = field(node, "type")?.kind();
+        return type === "struct_type" ? "struct" : type === "interface_type" ? "interface" : "type";
+      },
+      body: () => null,
+    },
+    type_alias: { kind: "type", body: () => null, keyword: () => "type" },
+    const_spec: { kind: "constant", name: goNames, body: () => null, keyword: () => "const" },
+    var_spec: { kind: "variable", name: goNames, body: () => null, keyword: () => "var" },
+  },
+  opaque: new Set(["func_literal", "call_expression"]),
+  wrappers: new Set(["type_declaration", "const_declaration", "var_declaration"]),
+  exported: (_node, name) => /^[A-Z]/.test(name),
+};
+
+// ── Java ──────────────────────────────────────────────────────────────────────
+
+const JAVA_OUTLINE: LanguageOutline = {
+  symbols: {
+    class_declaration: { kind: "class", container: true },
+    interface_declaration: { kind: "interface", container: true },
+    enum_declaration: { kind: "enum", container: true },
+    record_declaration: { kind: "class", container: true },
+    annotation_type_declaration: { kind: "interface", container: true },
+    method_declaration: { kind: "method" },
+    constructor_declaration: { kind: "constructor" },
+    field_declaration: {
+      kind: "property",
+      name: (node) =>
+        node
+          .children()
+          .filter((c) => kindOf(c) === "variable_declarator")
+          .map((c) => fieldText("name")(c))
+          .join(", "),
+      body: () => null,
+    },
+  },
+  opaque: new Set(["lambda_expression", "object_creation_expression"]),
+  wrappers: new Set([]),
+  exported: (node, _name, parent) =>
+    parent === "interface" ||
+    node.children().some((c) => kindOf(c) === "modifiers" && /\bpublic\b/.test(c.text())),
+};
+
+// ── Ruby ──────────────────────────────────────────────────────────────────────
+
+// Empty methods have no body; end the signature at `end`
+const rubyBody = (node: SgNode) =>
+  field(node, "body") ?? node.children().find((c) => kindOf(c) === "end") ?? null;
+
+const RUBY_VISIBILITY = new Set(["identifier"]);
+
+const RUBY_OUTLINE: LanguageOutline = {
+  symbols: {
+    class: { kind: "class", container: true },
+    module: { kind: "module", container: true },
+    method: { kind: "method", body: rubyBody },
+    singleton_method: {
+      kind: "method",
+      body: rubyBody,
+      name: (node) => `${field(node, "object")?.text()}.${fieldText("name")(node)}`,
+    },
+    assignment: {
+      kind: (node) => (field(node, "left")?.kind() === "constant" ? "constant" : null),
+      name: fieldText("left"),
+      body: () => null,
+    },
+  },
+  opaque: new Set(["block", "do_block", "lambda", "call"]),
+  wrappers: new Set([]),
+  exported: (node, name) => {
+    if (kindOf(node) !== "method") return !name.startsWith("_");
+    const marker = precedingMarker(node, RUBY_VISIBILITY);
+    return marker !== "private" && marker !== "protected";
+  },
+};
+
+// ── C / C++ ───────────────────────────────────────────────────────────────────
+
+const ACCESS_SPECIFIERS = new Set(["access_specifier"]);
+
+const DECLARATOR_NAMES = new Set([
+  "identifier",
+  "field_identifier",
+  "qualified_identifier",
+  "operator_name",
+  "destructor_name",
+  "type_identifier",
+]);
+
+// Follow nested declarators (pointer, function, array) down to the name
+function declaratorName(node: SgNode): string | undefined {
+  let d = field(node, "declarator");
+  while (d && !DECLARATOR_NAMES.has(kindOf(d))) d = field(d, "declarator");
+  return d?.text();
+}
+
+function hasFunctionDeclarator(node: SgNode): boolean {
+  let d = field(node, "declarator");
+  while (d) {
+    if (kindOf(d) === "function_declarator") return true;
+    d = field(d, "declarator");
+  }
+  return false;
+}
+
+// Struct/class/enum specifiers are symbols only when they define a body
+const withBody =
+  (kind: OutlineSymbolKind, container = false): SymbolRule => ({
+    kind: (node) => (field(node, "body") ? kind : null),
+    container,
+  });
+
+const C_OUTLINE: LanguageOutline = {
+  symbols: {
+    function_definition: { kind: "function", name: declaratorName },
+    declaration: {
+      kind: (node) => (hasFunctionDeclarator(node) ? "function" : "variable"),
+      name: declaratorName,
+      body: () => null,
+    },
+    field_declaration: {
+      kind: (node) => (hasFunctionDeclarator(node) ? "method" : "property"),
+      name: declaratorName,
+      body: () => null,
+    },
+    type_definition: { kind: "type", name: declaratorName, body: () => null },
+    struct_specifier: withBody("struct", true),
+    union_specifier: withBody("struct", true),
+    enum_specifier: withBody("enum"),
+    class_specifier: withBody("class", true),
+    namespace_definition: { kind: "module", container: true },
+    preproc_def: { kind: "macro", body: () => null },
+    preproc_function_def: { kind: "macro", body: () => null },
+  },
+  opaque: new Set(["lambda_expression", "compound_statement", "initializer_list"]),
+  wrappers: new Set(["template_declaration"]),
+  exported: (node, _name, parent) => {
+    if (parent === "class" || parent === "struct") {
+      const access = precedingMarker(node, ACCESS_SPECIFIERS);
+      const container = node.parent()?.parent()?.kind();
+      return (access ?? (container === "class_specifier" ? "private" : "public")) === "public";
+    }
+    return !hasChild(node, "storage_class_specifier", "static");
+  },
+};
+
+const OUTLINES: Record<string, LanguageOutline> = {
+  javascript: JS_OUTLINE,
+  typescript: JS_OUTLINE,
+  tsx: JS_OUTLINE,
+  python: PYTHON_OUTLINE,
+  rust: RUST_OUTLINE,
+  go: GO_OUTLINE,
+  java: JAVA_OUTLINE,
+  ruby: RUBY_OUTLINE,
+  c: C_OUTLINE,
+  cpp: C_OUTLINE,
+};
+
+/**
+ * Whether outlines are supported for a language
+ */
+export function hasOutline(lang: string): boolean {
+  return lang in OUTLINES;
+}
+
+function collapse(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function signatureOf(node: SgNode, rule: SymbolRule, content: string): string {
+  const body = rule.body ? rule.body(node) : field(node, "body");
+  const start = node.range().start.index;
+
+  // End at the body, or at a comment between the header and the body
+  const comment = node.children().find((c) => COMMENT_KINDS.has(kindOf(c)));
+  const ends = [body, comment].flatMap((n) => (n ? [n.range().start.index] : []));
+  let text = ends.length > 0 ? content.slice(start, Math.min(...ends)) : node.text().split("\n")[0];
+  text = collapse(text).replace(/(\s*(\{|=>|:|=|;))+$/, "");
+
+  const keyword = rule.keyword?.(node);
+  if (keyword && !text.startsWith(keyword)) text = `${keyword} ${text}`;
+  return text.length > MAX_SIGNATURE_CHARS ? `${text.slice(0, MAX_SIGNATURE_CHARS)}…` : text;
+}
+
+// First line of a comment or docstring, without comment markers
+function summarize(raw: string): string | undefined {
+  const line = raw
+    .replace(/^\/\*\*?|\*\/$/g, "")
+    .split("\n")
+    .map((l) => l.replace(/^\s*(\/\/[\/!]?|#|\*)?\s?/, "").trim())
+    .find((l) => l.length > 0 && !l.startsWith("@"));
+  if (!line) return undefined;
+  return line.length > MAX_DOC_CHARS ? `${line.slice(0, MAX_DOC_CHARS)}…` : line;
+}
+
+// The node whose preceding comments document a symbol: climb through wrappers
+// and through parents that start where the symbol starts (e.g. Ruby bodies)
+function docAnchor(node: SgNode, spec: LanguageOutline): SgNode {
+  let anchor = node;
+  for (;;) {
+    const parent = anchor.parent();
+    if (!parent) return anchor;
+    const wraps = spec.wrappers.has(kindOf(parent));
+    const leading =
+      parent.range().start.index === anchor.range().start.index &&
+      !parent.children().some((c) => c.isNamed() && c.range().end.index <= anchor.range().start.index);
+    if (!wraps && !leading) return anchor;
+    if (kindOf(parent) === "program" || kindOf(parent) === "source_file") return anchor;
+    anchor = parent;
+  }
+}
+
+function docOf(node: SgNode, spec: LanguageOutline): string | undefined {
+  const docstring = spec.docstring?.(node);
+  if (docstring) return summarize(docstring);
+
+  // Adjacent comments directly above the declaration
+  const anchor = docAnchor(node, spec);
+  const comments: string[] = [];
+  let line = anchor.range().start.line;
+  let prev = anchor.prev();
+  while (prev && prev.range().end.line >= line - 1) {
+    if (COMMENT_KINDS.has(kindOf(prev))) comments.unshift(prev.text());
+    else if (!ATTRIBUTE_KINDS.has(kindOf(prev))) break;
+    line = prev.range().start.line;
+    prev = prev.prev();
+  }
+  return comments.length > 0 ? summarize(comments.join("\n")) : undefined;
+}
+
+function collect(node: SgNode, file: FileContext, parent: OutlineSymbolKind | undefined): OutlineSymbol[] {
+  const { spec, content } = file;
+  const symbols: OutlineSymbol[] = [];
+
+  for (const child of node.children()) {
+    if (!child.isNamed()) continue;
+
+    const rule = spec.symbols[kindOf(child)];
+    let kind = rule ? (typeof rule.kind === "function" ? rule.kind(child) : rule.kind) : null;
+    if (rule && kind) {
+      if (kind === "function" && parent && TYPE_KINDS.has(parent)) kind = "method";
+      const name = (rule.name ?? fieldText("name"))(child) ?? "(anonymous)";
+      const range = child.range();
+      const doc = docOf(child, spec);
+      const children = rule.container ? collect(child, file, kind) : [];
+
+      symbols.push({
+        kind,
+        name,
+        signature: signatureOf(child, rule, content),
+        exported: spec.exported(child, name, parent, file),
+        ...(doc ? { doc } : {}),
+        line: range.start.line + 1,
+        // Some nodes (e.g. #define) end after their trailing newline
+        endLine: range.end.column === 0 && range.end.line > range.start.line ? range.end.line : range.end.line + 1,
+        ...(children.length > 0 ? { children } : {}),
+      });
+      continue;
+    }
+
+    if (spec.opaque.has(kindOf(child))) continue;
+    symbols.push(...collect(child, file, parent));
+  }
+
+  return symbols;
+}
+
+/**
+ * Build a nested symbol outline of a parsed file
+ */
+export function outlineOf(lang: string, root: SgNode, content: string): OutlineSymbol[] {
+  const spec = OUTLINES[lang];
+  if (!spec) return [];
+  const exportNames = spec.exportNames?.(root) ?? new Set<string>();
+  return collect(root, { spec, content, exportNames }, undefined);
+}
@@ -0,0 +1,201 @@
+import { basename, dirname, join } from "node:path";
+import { readFile } from "node:fs/promises";
+import fg from "fast-glob";
+import { getProjectSecretsAllowed } from "../config.js";
+
+/**
+ * Which files of the user's project sandbox code may see: what its
+ * .gitignore files don't ignore, minus secrets and git metadata.
+ */
+
+// Secrets the sandbox never lists or reads: env files, private keys,
+// keystores and credential files (matched against file names)
+const SECRET_FILES = [
+  ".env*",
+  "*.pem",
+  "*.key",
+  "*.p12",
+  "*.pfx",
+  "*.jks",
+  "*.keystore",
+  "id_rsa",
+  "id_dsa",
+  "id_ecdsa",
+  "id_ed25519",
+  ".netrc",
+  ".npmrc",
+  ".pypirc",
+];
+
+/**
+ * Restricts which files of a source the API lists and reads
+ */
+export interface FileFilter {
+  /** fast-glob ignore patterns pruning hidden directories from walks */
+  ignore: string[];
+  /** Whether a listed path is hidden */
+  hidden(path: string, isDirectory?: boolean): boolean;
+  /** Why a file may not be read, or undefined */
+  denied(path: string): string | undefined;
+}
+
+/**
+ * A .gitignore rule, relative to the directory of its file
+ */
+interface IgnoreRule {
+  base: string;
+  regex: RegExp;
+  negate: boolean;
+  dirOnly: boolean;
+}
+
+/**
+ * Convert a glob ("*", "?", "**", "[...]") to a regex source matching
+ * whole paths
+ */
+function globSource(glob: string): string {
+  let out = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      // "**/" matches any number of directories, a trailing "**" everything
+      if (glob[i + 2] === "/") {
+        out += "(?:.*/)?";
+        i += 2;
+      } else {
+        out += ".*";
+        i += 1;
+      }
+    } else if (char === "*") {
+      out += "[^/]*";
+    } else if (char === "?") {
+      out += "[^/]";
+    } else if (char === "[") {
+      const end = glob.indexOf("]", i + 1);
+      if (end === -1) {
+        out += "\\[";
+      } else {
+        out += `[${glob.slice(i + 1, end).replace(/^!/, "^").replace(/\\/g, "\\\\")}]`;
+        i = end;
+      }
+    } else if (char === "\\" && i + 1 < glob.length) {
+      out += glob[++i].replace(/[.+^${}()|[\]\\*?]/g, "\\$&");
+    } else {
+      out += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return out;
+}
+
+/**
+ * Parse a .gitignore file in `base` (relative to the project, "" for the root)
+ */
+function parseGitignore(text: string, base: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const raw of text.split("\n")) {
+    let line = raw.replace(/\r$/, "");
+    if (!line.trim() || line.startsWith("#")) continue;
+    line = line.replace(/(?<!\\)\s+$/, "");
+
+    const negate = line.startsWith("!");
+    if (negate) line = line.slice(1);
+    const dirOnly = line.endsWith("/");
+    if (dirOnly) line = line.slice(0, -1);
+    if (!line) continue;
+
+    // Patterns with a slash (other than a trailing one) are anchored to
+    // the .gitignore's directory; others match at any depth
+    const anchored = line.includes("/");
+    const pattern = line.replace(/^\//, "");
+    const source = `${anchored ? "" : "(?:.*/)?"}${globSource(pattern)}`;
+    rules.push({ base, regex: new RegExp(`^${source}$`), negate, dirOnly });
+  }
+  return rules;
+}
+
+// Whether a path is ignored by the rules, the last matching rule winning
+function matchesRules(rules: IgnoreRule[], path: string, isDirectory: boolean): boolean {
+  let ignored = false;
+  for (const rule of rules) {
+    if (rule.dirOnly && !isDirectory) continue;
+    if (rule.base && !path.startsWith(`${rule.base}/`)) continue;
+    const relativePath = rule.base ? path.slice(rule.base.length + 1) : path;
+    if (rule.regex.test(relativePath)) ignored = !rule.negate;
+  }
+  return ignored;
+}
+
+/**
+ * File filter for the project: hides and denies reading what .gitignore
+ * files ignore, .git directories, and secrets unless
+ * $OPENSRC_PROJECT_SECRETS allows them.
+ * .gitignore files are read on first use.
+ */
+export function createProjectFilter(projectDir: string): FileFilter & { load(): Promise<void> } {
+  const secrets = new RegExp(`^(?:${SECRET_FILES.map(globSource).join("|")})$`);
+  const allowSecrets = getProjectSecretsAllowed();
+  const rules: IgnoreRule[] = [];
+  let loading: Promise<void> | undefined;
+
+  const isSecret = (path: string) => !allowSecrets && secrets.test(basename(path));
+  // .git itself or anything under it, at any depth
+  const isGitMetadata = (path: string) => path.split("/").includes(".git");
+
+  const filter = {
+    ignore: [] as string[],
+
+    hidden: (path: string, isDirectory = false): boolean => {
+      if (isSecret(path) || isGitMetadata(path)) return true;
+      // Files in an ignored directory stay ignored (git can't re-include them)
+      const parts = path.split("/");
+      for (let i = 1; i < parts.length; i++) {
+        if (matchesRules(rules, parts.slice(0, i).join("/"), true)) return true;
+      }
+      return matchesRules(rules, path, isDirectory);
+    },
+
+    denied: (path: string): string | undefined => {
+      if (isSecret(path)) return "secrets files are not readable from the sandbox";
+      if (isGitMetadata(path)) return "git metadata is not readable from the sandbox";
+      if (filter.hidden(path)) return "ignored by the project's .gitignore";
+      return undefined;
+    },
+
+    load: (): Promise<void> => {
+      loading ??= (async () => {
+        const files = await fg("**/.gitignore", {
+          cwd: projectDir,
+          dot: true,
+          ignore: ["**/node_modules/**", "**/.git/**"],
+          onlyFiles: true,
+        });
+        // Parents before children, so nested rules take precedence
+        const patterns: string[] = [];
+        for (const file of files.sort((a, b) => a.split("/").length - b.split("/").length)) {
+          const base = dirname(file) === "." ? "" : dirname(file);
+          let text: string;
+          try {
+            text = await readFile(join(projectDir, file), "utf8");
+          } catch {
+            continue;
+          }
+          rules.push(...parseGitignore(text, base));
+
+          const prefix = base ? `${base}/` : "";
+          for (const line of text.split("\n").map((l) => l.trim())) {
+            if (!line || line.startsWith("#")) continue;
+            const pattern = line.replace(/\/$/, "");
+            const anchored = pattern.includes("/");
+            patterns.push(`${prefix}${anchored ? pattern.replace(/^\//, "") : `**/${pattern}`}/**`);
+          }
+        }
+
+        // Without negations nothing ignored is re-included, so ignored paths
+        // can be pruned from walks; otherwise rules only filter their results
+        if (!rules.some((r) => r.negate)) filter.ignore.push(...patterns);
+      })();
+      return loading;
+    },
+  };
+  return filter;
+}
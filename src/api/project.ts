@@ -0,0 +1,80 @@
+import type {
+  Source,
+  FileEntry,
+  GrepOptions,
+  GrepResult,
+  GrepFileMatch,
+  GrepCount,
+  AstGrepRule,
+  AstGrepOptions,
+  AstGrepMatch,
+  ReadOptions,
+  ReadRequest,
+} from "../types.js";
+import { createOpensrcAPI } from "./opensrc.js";
+import { createUsageTracker, type UsageTracker } from "../budget.js";
+import { createProjectFilter } from "./project-filter.js";
+
+// Source id of the project in results (grep, astGrep)
+export const PROJECT_SOURCE_ID = "project";
+
+/**
+ * Read-only view of the user's project (the sandbox `project` global)
+ */
+export interface ProjectAPI {
+  files(glob?: string): Promise<FileEntry[]>;
+  read(filePath: string, options?: ReadOptions): Promise<string>;
+  readMany(paths: (string | ReadRequest)[]): Promise<Record<string, string>>;
+  grep(pattern: string, options: Omit<GrepOptions, "sources"> & { filesOnly: true }): Promise<GrepFileMatch[]>;
+  grep(pattern: string, options: Omit<GrepOptions, "sources"> & { count: true }): Promise<GrepCount[]>;
+  grep(pattern: string, options?: Omit<GrepOptions, "sources">): Promise<GrepResult[]>;
+  astGrep(rule: string | AstGrepRule, options?: Omit<AstGrepOptions, "sources">): Promise<AstGrepMatch[]>;
+}
+
+/**
+ * Create the read-only project API for the executor sandbox. Calls go
+ * through an opensrc API whose only source is the project directory.
+ */
+export function createProjectAPI(
+  projectDir: string,
+  usage: UsageTracker = createUsageTracker()
+): ProjectAPI {
+  const source: Source = {
+    id: PROJECT_SOURCE_ID,
+    type: "repo",
+    name: PROJECT_SOURCE_ID,
+    path: projectDir,
+    fetchedAt: "",
+    repository: "",
+  };
+  const filter = createProjectFilter(projectDir);
+  const api = createOpensrcAPI(() => [source], () => {}, usage, projectDir, filter);
+  const sources = [PROJECT_SOURCE_ID];
+
+  return {
+    files: async (glob?: string) => {
+      await filter.load();
+      return api.files(PROJECT_SOURCE_ID, glob);
+    },
+
+    read: async (filePath: string, options?: ReadOptions) => {
+      await filter.load();
+      return api.read(PROJECT_SOURCE_ID, filePath, options);
+    },
+
+    readMany: async (paths: (string | ReadRequest)[]) => {
+      await filter.load();
+      return api.readMany(PROJECT_SOURCE_ID, paths);
+    },
+
+    grep: (async (pattern: string, options: Omit<GrepOptions, "sources"> = {}) => {
+      await filter.load();
+      return api.grep(pattern, { ...options, sources });
+    }) as ProjectAPI["grep"],
+
+    astGrep: async (rule: string | AstGrepRule, options: Omit<AstGrepOptions, "sources"> = {}) => {
+      await filter.load();
+      return api.astGrep(rule, { ...options, sources });
+    },
+  };
+}
@@ -0,0 +1,262 @@
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import { copyFile, mkdir, rename, rm, stat } from "node:fs/promises";
+import { dirname, isAbsolute, join, relative, resolve } from "node:path";
+import fg from "fast-glob";
+import { fetchCommand } from "opensrc/dist/commands/fetch.js";
+import { parsePackageSpec, detectInputType } from "opensrc/dist/lib/registries/index.js";
+import { parseRepoSpec } from "opensrc/dist/lib/repo.js";
+import type { Source } from "../types.js";
+import { addRepoSource } from "../sources.js";
+import { createProjectFilter } from "./project-filter.js";
+
+/**
+ * Sources opensrc cannot fetch: any git URL (cloned with the system git)
+ * and local directories (copied). Both are stored as repos. Fetches go
+ * through fetchIntoStore, which leaves the other specs to opensrc.
+ */
+
+const run = promisify(execFile);
+
+// Host segment of the names of local repositories and directories
+const LOCAL_HOST = "local";
+
+const GIT_TIMEOUT_MS = 120_000;
+
+// Never wait on a credential prompt; the sandbox has no terminal
+const GIT_ENV = {
+  ...process.env,
+  GIT_TERMINAL_PROMPT: "0",
+  GIT_SSH_COMMAND: process.env.GIT_SSH_COMMAND ?? "ssh -o BatchMode=yes",
+};
+
+/**
+ * Result of fetching one spec, as opensrc reports it
+ */
+export interface OpensrcFetchResult {
+  package: string;
+  version: string;
+  path: string;
+  success: boolean;
+  error?: string;
+  registry?: "npm" | "pypi" | "crates";
+}
+
+/**
+ * A git URL or local directory to fetch as a repo source
+ */
+export interface RemoteSpec {
+  kind: "git" | "path";
+  /** Source name: "git.example.com/team/lib", "local/srv/git/lib" */
+  name: string;
+  /** URL to clone, or directory to copy */
+  location: string;
+  ref?: string;
+  /** Recorded as the source's repository */
+  repository: string;
+}
+
+// Split a trailing "#ref", or "@ref" after the last path segment
+function splitRef(spec: string): { location: string; ref?: string } {
+  const hash = spec.indexOf("#");
+  if (hash !== -1) return { location: spec.slice(0, hash), ref: spec.slice(hash + 1) || undefined };
+  const at = spec.lastIndexOf("@");
+  if (at > spec.lastIndexOf("/") && at > spec.indexOf(":")) {
+    return { location: spec.slice(0, at), ref: spec.slice(at + 1) || undefined };
+  }
+  return { location: spec };
+}
+
+const nameOf = (host: string, path: string) =>
+  `${host}/${path.replace(/^\/+|\/+$/g, "").replace(/\.git$/, "")}`;
+
+/**
+ * Parse a spec opensrc has no fetcher for: `git+https://…`, `git+ssh://…`,
+ * `ssh://…`, `git://…`, `git@host:org/repo.git`, `file:///path/to/repo`
+ * (each with an optional `#ref` or `@ref`) and `path:dir`. Relative
+ * directories resolve against `baseDir`. Returns undefined for other specs.
+ */
+export function parseRemoteSpec(spec: string, baseDir: string): RemoteSpec | undefined {
+  const input = spec.trim();
+
+  if (input.startsWith("path:")) {
+    const dir = resolve(baseDir, input.slice("path:".length));
+    return { kind: "path", name: nameOf(LOCAL_HOST, dir), location: dir, repository: dir };
+  }
+
+  if (input.startsWith("git+") || /^(ssh|git|file):\/\//.test(input)) {
+    const { location, ref } = splitRef(input.replace(/^git\+/, ""));
+    let url: URL;
+    try {
+      url = new URL(location);
+    } catch {
+      return undefined;
+    }
+    const local = url.protocol === "file:";
+    const path = decodeURIComponent(url.pathname);
+    if (!/[^/]/.test(path)) return undefined;
+    return {
+      kind: "git",
+      name: nameOf(local ? LOCAL_HOST : url.hostname, path),
+      location,
+      ref,
+      repository: location,
+    };
+  }
+
+  // scp-like: git@host:org/repo.git
+  const scp = input.match(/^[\w.-]+@([\w.-]+):(?!\/\/)(.+)$/);
+  if (scp) {
+    const { location, ref } = splitRef(input);
+    const path = location.slice(location.indexOf(":") + 1);
+    return { kind: "git", name: nameOf(scp[1], path), location, ref, repository: location };
+  }
+
+  return undefined;
+}
+
+/**
+ * Type, name and version (ref for repos) of the source a spec fetches, or
+ * undefined for an invalid repo spec
+ */
+export function specSource(
+  spec: string,
+  baseDir: string
+): { type: Source["type"]; name: string; version?: string } | undefined {
+  const remote = parseRemoteSpec(spec, baseDir);
+  if (remote) return { type: "repo", name: remote.name, version: remote.ref };
+  if (detectInputType(spec) === "repo") {
+    const repo = parseRepoSpec(spec);
+    return repo ? { type: "repo", name: `${repo.host}/${repo.owner}/${repo.repo}`, version: repo.ref } : undefined;
+  }
+  const parsed = parsePackageSpec(spec);
+  return { type: parsed.registry, name: parsed.name, version: parsed.version };
+}
+
+/**
+ * Whether a repo source was fetched from a local directory or repository
+ */
+export function isLocalSource(source: Source): boolean {
+  return source.type === "repo" && source.name.startsWith(`${LOCAL_HOST}/`);
+}
+
+/**
+ * Spec that fetches a repo source again at `ref`: by name for repos opensrc
+ * fetched, else from the repository it came from
+ */
+export function refetchSpec(source: Source, ref: string): string {
+  if (detectInputType(source.name) === "repo") return `${source.name}@${ref}`;
+  const { repository } = source;
+  if (repository.startsWith("/")) return `path:${repository}`;
+  return `${/^https?:/.test(repository) ? `git+${repository}` : repository}#${ref}`;
+}
+
+async function git(args: string[], cwd?: string): Promise<string> {
+  try {
+    const { stdout } = await run("git", args, { cwd, env: GIT_ENV, timeout: GIT_TIMEOUT_MS });
+    return stdout.trim();
+  } catch (e) {
+    const stderr = (e as { stderr?: string }).stderr?.trim().split("\n") ?? [];
+    const fatal = stderr.find((l) => l.startsWith("fatal: "))?.slice("fatal: ".length);
+    throw new Error(fatal ?? (e instanceof Error ? e.message : String(e)));
+  }
+}
+
+// Clone `url` into `dir` without history. Returns the ref checked out.
+async function cloneRepo(url: string, dir: string, ref?: string): Promise<string> {
+  if (!ref) {
+    await git(["clone", "--depth", "1", url, dir]);
+    ref = await git(["rev-parse", "--abbrev-ref", "HEAD"], dir);
+  } else {
+    try {
+      await git(["clone", "--depth", "1", "--branch", ref, "--single-branch", url, dir]);
+    } catch {
+      // Commits can't be cloned by name: clone everything and check out
+      await rm(dir, { recursive: true, force: true });
+      await git(["clone", "--no-checkout", url, dir]);
+      await git(["checkout", "--detach", ref], dir);
+    }
+  }
+  await rm(join(dir, ".git"), { recursive: true, force: true });
+  return ref;
+}
+
+// Copy the files of `from` sandbox code may see in a project: no
+// gitignored files, secrets, node_modules or .git. `store` is skipped when
+// it lies within `from`.
+async function copyDirectory(from: string, to: string, store: string): Promise<void> {
+  if (!(await stat(from).catch(() => undefined))?.isDirectory()) {
+    throw new Error(`${from} is not a directory`);
+  }
+  const filter = createProjectFilter(from);
+  await filter.load();
+  const inStore = relative(from, store);
+  const skipStore = inStore && !inStore.startsWith("..") && !isAbsolute(inStore) ? [`${inStore}/**`] : [];
+  const files = await fg("**/*", {
+    cwd: from,
+    dot: true,
+    onlyFiles: true,
+    followSymbolicLinks: false,
+    ignore: ["**/node_modules/**", "**/.git/**", ...filter.ignore, ...skipStore],
+  });
+  for (const file of files.filter((f) => !filter.hidden(f))) {
+    await mkdir(dirname(join(to, file)), { recursive: true });
+    await copyFile(join(from, file), join(to, file));
+  }
+}
+
+// Fetch a remote into the opensrc store at `cwd` and record it in the
+// store's sources.json. The old copy is kept until the new one is complete.
+async function fetchRemote(remote: RemoteSpec, cwd: string): Promise<OpensrcFetchResult> {
+  const path = `repos/${remote.name}`;
+  const target = join(cwd, "opensrc", path);
+  const staging = `${target}.fetching`;
+  try {
+    await rm(staging, { recursive: true, force: true });
+    await mkdir(dirname(staging), { recursive: true });
+    let version = remote.ref ?? "";
+    if (remote.kind === "git") {
+      version = await cloneRepo(remote.location, staging, remote.ref);
+    } else {
+      await copyDirectory(remote.location, staging, join(cwd, "opensrc"));
+    }
+    await rm(target, { recursive: true, force: true });
+    await rename(staging, target);
+    await addRepoSource(cwd, { name: remote.name, version, path }, remote.repository);
+    return { package: remote.name, version, path, success: true };
+  } catch (e) {
+    await rm(staging, { recursive: true, force: true });
+    return {
+      package: remote.name,
+      version: remote.ref ?? "",
+      path,
+      success: false,
+      error: e instanceof Error ? e.message : String(e),
+    };
+  }
+}
+
+/**
+ * Fetch specs into the opensrc store at `cwd`: registry packages and hosted
+ * repos with opensrc, other git URLs and directories here. Returns one
+ * result per spec, in order. `allowModifications` lets opensrc edit the
+ * project's files.
+ */
+export async function fetchIntoStore(
+  specs: string[],
+  cwd: string,
+  options: { baseDir: string; allowModifications: boolean }
+): Promise<OpensrcFetchResult[]> {
+  const remotes = specs.map((spec) => parseRemoteSpec(spec, options.baseDir));
+  const opensrcSpecs = specs.filter((_, i) => !remotes[i]);
+  const opensrcResults =
+    opensrcSpecs.length > 0
+      ? await fetchCommand(opensrcSpecs, { cwd, allowModifications: options.allowModifications })
+      : [];
+
+  const results: OpensrcFetchResult[] = [];
+  for (const remote of remotes) {
+    results.push(remote ? await fetchRemote(remote, cwd) : opensrcResults.shift()!);
+  }
+  return results;
+}
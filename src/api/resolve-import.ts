@@ -0,0 +1,381 @@
+import { builtinModules } from "node:module";
+import { join, posix } from "node:path";
+import { readFile, stat } from "node:fs/promises";
+import fg from "fast-glob";
+import type { ImportResolution, Source } from "../types.js";
+import { FileNotFoundError, ImportResolutionError } from "../errors.js";
+
+/**
+ * Node/TypeScript module resolution over fetched sources.
+ *
+ * Paths are posix paths relative to a source's root. Fetched sources are
+ * checkouts rather than installed packages, so build output named by
+ * package.json (dist/, lib/...) is mapped back to src/ when it is missing.
+ */
+
+// Tried in order when a specifier has no (usable) extension
+const EXTENSIONS = [".ts", ".tsx", ".mts", ".cts", ".d.ts", ".js", ".jsx", ".mjs", ".cjs", ".json"];
+
+// TypeScript sources import each other by their compiled names ("./x.js" → "./x.ts")
+const COMPILED_EXTENSIONS: Record<string, string[]> = {
+  ".js": [".ts", ".tsx", ".d.ts"],
+  ".jsx": [".tsx"],
+  ".mjs": [".mts", ".d.mts"],
+  ".cjs": [".cts", ".d.cts"],
+};
+
+const BUILD_DIR = /^(dist|build|lib|out|esm|cjs)\//;
+const COMPILED_FILE = /(\.d)?\.[cm]?[jt]sx?$/;
+
+const MAX_EXTENDS_DEPTH = 5;
+
+interface PackageInfo {
+  name: string;
+  /** Package directory relative to the source root ("" for the root) */
+  dir: string;
+  json: Record<string, unknown>;
+}
+
+interface PathMapping {
+  /** Directory `paths` targets are relative to */
+  base: string;
+  baseUrl?: string;
+  paths: Record<string, string[]>;
+}
+
+// JSON with comments and trailing commas (tsconfig.json)
+function parseJsonc(text: string): unknown {
+  let out = "";
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '"') {
+      const start = i;
+      for (i++; i < text.length && text[i] !== '"'; i++) {
+        if (text[i] === "\\") i++;
+      }
+      out += text.slice(start, i + 1);
+    } else if (ch === "/" && text[i + 1] === "/") {
+      while (i < text.length && text[i] !== "\n") i++;
+      out += "\n";
+    } else if (ch === "/" && text[i + 1] === "*") {
+      i = text.indexOf("*/", i + 2);
+      if (i === -1) break;
+      i++;
+    } else {
+      out += ch;
+    }
+  }
+  return JSON.parse(out.replace(/,(\s*[}\]])/g, "$1"));
+}
+
+/**
+ * Package name and subpath of a bare specifier ("@a/b/c" → "@a/b", "./c")
+ */
+export function splitPackageSpecifier(specifier: string): { name: string; subpath: string } {
+  const parts = specifier.split("/");
+  const length = specifier.startsWith("@") ? 2 : 1;
+  const rest = parts.slice(length).join("/");
+  return { name: parts.slice(0, length).join("/"), subpath: rest ? `./${rest}` : "." };
+}
+
+// Match a `paths`/`exports` pattern with at most one "*"; returns the captured text
+function matchPattern(pattern: string, value: string): string | undefined {
+  const star = pattern.indexOf("*");
+  if (star === -1) return pattern === value ? "" : undefined;
+  const prefix = pattern.slice(0, star);
+  const suffix = pattern.slice(star + 1);
+  if (value.length < prefix.length + suffix.length) return undefined;
+  if (!value.startsWith(prefix) || !value.endsWith(suffix)) return undefined;
+  return value.slice(prefix.length, value.length - suffix.length);
+}
+
+// Targets of an `exports` entry in preference order: source conditions first
+// (e.g. "@zod/source"), then the rest in declaration order
+function conditionTargets(value: unknown): string[] {
+  if (typeof value === "string") return [value];
+  if (Array.isArray(value)) return value.flatMap(conditionTargets);
+  if (!value || typeof value !== "object") return [];
+  const entries = Object.entries(value as Record<string, unknown>);
+  return [
+    ...entries.filter(([key]) => /source/i.test(key)),
+    ...entries.filter(([key]) => !/source/i.test(key)),
+  ].flatMap(([, target]) => conditionTargets(target));
+}
+
+// Subpaths a package exposes; wildcard and JSON subpaths are left out
+function exportSubpaths(exports: unknown): string[] {
+  if (!exports || typeof exports !== "object" || Array.isArray(exports)) return ["."];
+  const keys = Object.keys(exports);
+  if (!keys.some((key) => key.startsWith("."))) return ["."];
+  return keys.filter((key) => !key.includes("*") && !key.endsWith(".json"));
+}
+
+function exportTargets(exports: unknown, subpath: string): string[] {
+  const isSubpathMap =
+    exports !== null &&
+    typeof exports === "object" &&
+    !Array.isArray(exports) &&
+    Object.keys(exports).some((key) => key.startsWith("."));
+  const map = (isSubpathMap ? exports : { ".": exports }) as Record<string, unknown>;
+
+  if (subpath in map) return conditionTargets(map[subpath]);
+
+  // Longest matching "./x/*" pattern wins
+  const patterns = Object.keys(map)
+    .filter((key) => key.includes("*") && matchPattern(key, subpath) !== undefined)
+    .sort((a, b) => b.length - a.length);
+  if (patterns.length === 0) return [];
+  const captured = matchPattern(patterns[0], subpath)!;
+  return conditionTargets(map[patterns[0]]).map((target) => target.replaceAll("*", captured));
+}
+
+/**
+ * Create a resolver; package and tsconfig lookups are cached per resolver
+ */
+export function createImportResolver(opensrcDir: string) {
+  const packageCache = new Map<string, Promise<PackageInfo[]>>();
+  const mappingCache = new Map<string, Promise<PathMapping | null>>();
+
+  const isFile = async (root: string, rel: string): Promise<boolean> => {
+    try {
+      return (await stat(join(root, rel))).isFile();
+    } catch {
+      return false;
+    }
+  };
+
+  const readJson = async (root: string, rel: string, jsonc = false): Promise<Record<string, unknown> | null> => {
+    try {
+      const text = await readFile(join(root, rel), "utf8");
+      const value = jsonc ? parseJsonc(text) : JSON.parse(text);
+      return value && typeof value === "object" ? (value as Record<string, unknown>) : null;
+    } catch {
+      return null;
+    }
+  };
+
+  // File a path refers to: exact, TS source for a compiled name, with an
+  // extension added, or a directory index
+  const resolveFile = async (root: string, rel: string): Promise<string | undefined> => {
+    rel = posix.normalize(rel).replace(/\/$/, "");
+    if (rel.startsWith("../") || rel === "..") return undefined;
+
+    const ext = posix.extname(rel);
+    const candidates = [
+      ...(COMPILED_EXTENSIONS[ext] ?? []).map((e) => rel.slice(0, -ext.length) + e),
+      rel,
+      ...EXTENSIONS.map((e) => rel + e),
+      ...EXTENSIONS.map((e) => posix.join(rel, `index${e}`)),
+    ];
+    for (const candidate of candidates) {
+      if (await isFile(root, candidate)) return candidate;
+    }
+    return undefined;
+  };
+
+  // A package.json target, falling back from missing build output to src/
+  const resolveTarget = async (root: string, pkgDir: string, target: string): Promise<string | undefined> => {
+    const rel = posix.normalize(target);
+    const found = await resolveFile(root, posix.join(pkgDir, rel));
+    if (found || !BUILD_DIR.test(rel)) return found;
+    const source = rel.replace(BUILD_DIR, "src/").replace(COMPILED_FILE, "");
+    return resolveFile(root, posix.join(pkgDir, source));
+  };
+
+  const packagesOf = (source: Source): Promise<PackageInfo[]> => {
+    let packages = packageCache.get(source.path);
+    if (!packages) {
+      const root = join(opensrcDir, source.path);
+      packages = fg("**/package.json", {
+        cwd: root,
+        ignore: ["**/node_modules/**", "**/.git/**"],
+        onlyFiles: true,
+      }).then(async (files) => {
+        const infos: PackageInfo[] = [];
+        for (const file of files.sort((a, b) => a.split("/").length - b.split("/").length)) {
+          const json = await readJson(root, file);
+          if (typeof json?.name !== "string") continue;
+          const dir = posix.dirname(file);
+          infos.push({ name: json.name, dir: dir === "." ? "" : dir, json });
+        }
+        return infos;
+      });
+      packageCache.set(source.path, packages);
+    }
+    return packages;
+  };
+
+  const resolvePackage = async (
+    root: string,
+    pkg: PackageInfo,
+    subpath: string
+  ): Promise<string | undefined> => {
+    const { json } = pkg;
+    let targets: string[];
+    if (json.exports !== undefined) {
+      targets = exportTargets(json.exports, subpath);
+    } else if (subpath === ".") {
+      targets = ["source", "types", "typings", "module", "main"]
+        .map((field) => json[field])
+        .filter((t): t is string => typeof t === "string");
+      targets.push("index");
+    } else {
+      targets = [subpath];
+    }
+
+    for (const target of targets) {
+      const file = await resolveTarget(root, pkg.dir, target);
+      if (file) return file;
+    }
+    return undefined;
+  };
+
+  // compilerOptions.baseUrl/paths of a tsconfig, following relative `extends`
+  const loadMapping = async (root: string, configPath: string, depth = 0): Promise<PathMapping | null> => {
+    const config = await readJson(root, configPath, true);
+    if (!config) return null;
+    const dir = posix.dirname(configPath);
+
+    let mapping: PathMapping | null = null;
+    const parents = [config.extends].flat().filter((p): p is string => typeof p === "string");
+    for (const parent of parents) {
+      if (!parent.startsWith(".") || depth >= MAX_EXTENDS_DEPTH) continue;
+      const parentPath = posix.normalize(posix.join(dir, parent.endsWith(".json") ? parent : `${parent}.json`));
+      if (parentPath.startsWith("../")) continue;
+      mapping = (await loadMapping(root, parentPath, depth + 1)) ?? mapping;
+    }
+
+    const options = (config.compilerOptions ?? {}) as { baseUrl?: string; paths?: Record<string, string[]> };
+    const baseUrl = typeof options.baseUrl === "string" ? posix.join(dir, options.baseUrl) : mapping?.baseUrl;
+    const paths = options.paths ?? mapping?.paths;
+    if (!paths && !baseUrl) return null;
+
+    // `paths` are relative to baseUrl, or else to the config declaring them
+    const base = baseUrl ?? (options.paths ? dir : mapping!.base);
+    return { base, baseUrl, paths: paths ?? {} };
+  };
+
+  // Nearest tsconfig.json at or above a directory
+  const mappingFor = (source: Source, dir: string): Promise<PathMapping | null> => {
+    const key = `${source.path}:${dir}`;
+    let mapping = mappingCache.get(key);
+    if (!mapping) {
+      const root = join(opensrcDir, source.path);
+      mapping = (async () => {
+        const configPath = posix.join(dir, "tsconfig.json");
+        if (await isFile(root, configPath)) return loadMapping(root, configPath);
+        if (dir === "." || dir === "") return null;
+        return mappingFor(source, posix.dirname(dir));
+      })();
+      mappingCache.set(key, mapping);
+    }
+    return mapping;
+  };
+
+  const resolveWithPaths = async (
+    root: string,
+    mapping: PathMapping,
+    specifier: string
+  ): Promise<string | undefined> => {
+    // Most specific pattern (longest prefix before "*") first
+    const patterns = Object.keys(mapping.paths)
+      .filter((pattern) => matchPattern(pattern, specifier) !== undefined)
+      .sort((a, b) => b.split("*")[0].length - a.split("*")[0].length);
+    for (const pattern of patterns) {
+      const captured = matchPattern(pattern, specifier)!;
+      for (const target of mapping.paths[pattern]) {
+        const file = await resolveFile(root, posix.join(mapping.base, target.replace("*", captured)));
+        if (file) return file;
+      }
+    }
+    return mapping.baseUrl ? resolveFile(root, posix.join(mapping.baseUrl, specifier)) : undefined;
+  };
+
+  return {
+    /**
+     * Resolve `specifier` imported from `fromFile` in source `from`,
+     * searching `sources` for packages that aren't part of it
+     */
+    resolve: async (
+      sources: Source[],
+      from: Source,
+      fromFile: string,
+      specifier: string
+    ): Promise<ImportResolution> => {
+      const root = join(opensrcDir, from.path);
+      const fail = (reason: string) => new ImportResolutionError(specifier, fromFile, reason);
+
+      if (specifier.startsWith("node:") || builtinModules.includes(specifier)) {
+        return { specifier, kind: "builtin" };
+      }
+
+      if (specifier === "." || specifier === ".." || specifier.startsWith("./") || specifier.startsWith("../")) {
+        const target = posix.join(posix.dirname(fromFile), specifier);
+        if (posix.normalize(target).startsWith("../")) throw fail("path leaves the source");
+        const file = await resolveFile(root, target);
+        if (!file) throw fail(`no file matches ${target}`);
+        return { specifier, kind: "relative", source: from.id, file };
+      }
+      if (specifier.startsWith("/")) throw fail("absolute paths are not supported");
+
+      const mapping = await mappingFor(from, posix.dirname(fromFile));
+      if (mapping) {
+        const file = await resolveWithPaths(root, mapping, specifier);
+        if (file) return { specifier, kind: "paths", source: from.id, file };
+      }
+
+      // Workspace package of the same source, then other fetched sources
+      // (sources named like the package first, its default version before others)
+      const { name, subpath } = splitPackageSpecifier(specifier);
+      const others = sources
+        .filter((s) => s.path !== from.path)
+        .sort((a, b) => Number(b.id === name) - Number(a.id === name) || Number(b.name === name) - Number(a.name === name));
+      for (const source of [from, ...others]) {
+        const pkg = (await packagesOf(source)).find((p) => p.name === name);
+        if (!pkg) continue;
+        const file = await resolvePackage(join(opensrcDir, source.path), pkg, subpath);
+        if (!file) {
+          throw fail(`package ${name} (${source.id}/${pkg.dir || "."}) has no file for ${subpath}`);
+        }
+        return {
+          specifier,
+          kind: source === from ? "workspace" : "package",
+          source: source.id,
+          file,
+        };
+      }
+
+      return { specifier, kind: "unfetched", fetch: name };
+    },
+
+    /**
+     * Names of the packages (package.json files) in `source`, top-level first
+     */
+    packageNames: async (source: Source): Promise<string[]> =>
+      (await packagesOf(source)).map((p) => p.name),
+
+    /**
+     * Entry points of a package in `source`: the one named `packageName`,
+     * else the one named like the source, else the top-level one.
+     * Subpaths whose files can't be found are left out.
+     */
+    entryPoints: async (
+      source: Source,
+      packageName?: string
+    ): Promise<{ name: string; entries: { subpath: string; file: string }[] }> => {
+      const packages = await packagesOf(source);
+      const pkg = packageName
+        ? packages.find((p) => p.name === packageName)
+        : (packages.find((p) => p.name === source.name) ?? packages[0]);
+      if (!pkg) throw new FileNotFoundError(packageName ? `package.json (name "${packageName}")` : "package.json");
+
+      const root = join(opensrcDir, source.path);
+      const entries: { subpath: string; file: string }[] = [];
+      for (const subpath of exportSubpaths(pkg.json.exports)) {
+        const file = await resolvePackage(root, pkg, subpath);
+        if (file) entries.push({ subpath, file });
+      }
+      return { name: pkg.name, entries };
+    },
+  };
+}
@@ -0,0 +1,433 @@
+import { join, dirname } from "node:path";
+import { readFile, writeFile, rename, rm, mkdir, stat } from "node:fs/promises";
+import { threadId } from "node:worker_threads";
+import fg from "fast-glob";
+import { parse, type SgNode } from "@ast-grep/napi";
+import type {
+  OutlineSymbol,
+  OutlineSymbolKind,
+  ReferenceKind,
+  Source,
+  SymbolDefinition,
+  SymbolIndexStatus,
+  SymbolReference,
+} from "../types.js";
+import { langForFile, requireParser } from "./languages.js";
+import { hasOutline, outlineOf } from "./outline.js";
+
+/**
+ * On-disk symbol index for one source, stored as JSON: declarations taken
+ * from file outlines, and identifier references by name.
+ */
+
+const INDEX_VERSION = 1;
+
+// Larger files are left out of the index
+const MAX_FILE_BYTES = 1024 * 1024;
+
+// Same exclusions as the trigram index
+const INDEX_IGNORE = ["**/node_modules/**", "**/.git/**", "**/*.min.js"];
+
+// Identifier node kinds recorded as references, per language
+const REFERENCE_KINDS: Record<string, string[]> = {
+  javascript: ["identifier", "property_identifier", "shorthand_property_identifier"],
+  typescript: ["identifier", "type_identifier", "property_identifier", "shorthand_property_identifier"],
+  tsx: ["identifier", "type_identifier", "property_identifier", "shorthand_property_identifier"],
+  python: ["identifier"],
+  rust: ["identifier", "type_identifier", "field_identifier"],
+  go: ["identifier", "type_identifier", "field_identifier"],
+  java: ["identifier", "type_identifier"],
+  ruby: ["identifier", "constant"],
+  c: ["identifier", "type_identifier", "field_identifier"],
+  cpp: ["identifier", "type_identifier", "field_identifier", "namespace_identifier"],
+};
+
+// Statements whose identifiers are imports, per language
+const IMPORT_KINDS: Record<string, string[]> = {
+  javascript: ["import_statement"],
+  typescript: ["import_statement"],
+  tsx: ["import_statement"],
+  python: ["import_statement", "import_from_statement"],
+  rust: ["use_declaration"],
+  go: ["import_declaration"],
+  java: ["import_declaration"],
+};
+
+const CALL_KINDS = new Set([
+  "call_expression",
+  "new_expression",
+  "call",
+  "method_invocation",
+  "object_creation_expression",
+  "macro_invocation",
+]);
+const MEMBER_KINDS = new Set(["member_expression", "attribute", "field_expression", "selector_expression"]);
+
+const REFERENCE_KIND_CODES: ReferenceKind[] = ["reference", "call", "type", "import"];
+
+interface StoredDefinition {
+  name: string;
+  kind: OutlineSymbolKind;
+  file: number;
+  line: number;
+  endLine: number;
+  exported: boolean;
+  container?: string;
+  signature: string;
+}
+
+interface SymbolIndexData {
+  version: number;
+  builtAt: string;
+  files: string[];
+  definitions: StoredDefinition[];
+  /** name → flattened [file id, line, kind code] triples */
+  references: Record<string, number[]>;
+}
+
+/**
+ * Loaded symbol index with definitions grouped by name
+ */
+export interface SymbolIndex {
+  data: SymbolIndexData;
+  byName: Map<string, StoredDefinition[]>;
+}
+
+/**
+ * Path of the symbol index file for a source
+ */
+export function getSymbolIndexPath(opensrcDir: string, source: Source): string {
+  return join(opensrcDir, "index", `${source.path}.symbols.json`);
+}
+
+function flattenOutline(
+  symbols: OutlineSymbol[],
+  file: number,
+  out: StoredDefinition[],
+  container?: string
+): void {
+  for (const symbol of symbols) {
+    out.push({
+      name: symbol.name,
+      kind: symbol.kind,
+      file,
+      line: symbol.line,
+      endLine: symbol.endLine,
+      exported: symbol.exported,
+      ...(container ? { container } : {}),
+      signature: symbol.signature,
+    });
+    if (symbol.children) flattenOutline(symbol.children, file, out, symbol.name);
+  }
+}
+
+function referenceKind(node: SgNode, inImport: boolean): ReferenceKind {
+  if (inImport) return "import";
+  const parent = node.parent();
+  if (parent) {
+    const parentKind = parent.kind() as string;
+    if (CALL_KINDS.has(parentKind)) return "call";
+    // Method calls: the property (not the object) of a called member expression
+    if (MEMBER_KINDS.has(parentKind) && node.range().start.index > parent.range().start.index) {
+      const grandparent = parent.parent();
+      if (grandparent && CALL_KINDS.has(grandparent.kind() as string)) return "call";
+    }
+  }
+  return node.kind() === "type_identifier" ? "type" : "reference";
+}
+
+/**
+ * Build (or rebuild) the symbol index for a source and write it atomically
+ */
+export async function buildSymbolIndex(opensrcDir: string, source: Source): Promise<SymbolIndexStatus> {
+  const sourcePath = join(opensrcDir, source.path);
+  const entries = await fg("**/*", {
+    cwd: sourcePath,
+    ignore: INDEX_IGNORE,
+    onlyFiles: true,
+    stats: true,
+  });
+
+  const files: string[] = [];
+  const definitions: StoredDefinition[] = [];
+  const references: Record<string, number[]> = Object.create(null);
+  let referenceCount = 0;
+
+  for (const entry of entries.sort((a, b) => a.path.localeCompare(b.path))) {
+    const lang = langForFile(entry.path);
+    if (!lang || !hasOutline(lang) || (entry.stats?.size ?? 0) > MAX_FILE_BYTES) continue;
+
+    let root: SgNode;
+    let content: string;
+    try {
+      const parser = requireParser(lang);
+      content = await readFile(join(sourcePath, entry.path), "utf8");
+      root = parse(parser, content).root();
+    } catch {
+      // No parser installed, or unreadable
+      continue;
+    }
+
+    const file = files.length;
+    files.push(entry.path);
+
+    const firstDefinition = definitions.length;
+    flattenOutline(outlineOf(lang, root, content), file, definitions);
+
+    // Declaration names are not references to themselves
+    const declared = new Set(
+      definitions.slice(firstDefinition).map((d) => `${d.line}:${d.name}`)
+    );
+    const importKinds = IMPORT_KINDS[lang] ?? [];
+    const importRanges =
+      importKinds.length > 0
+        ? root.findAll({ rule: { any: importKinds.map((kind) => ({ kind })) } }).map((n) => n.range())
+        : [];
+    const seen = new Set<string>();
+
+    const nodes = root.findAll({ rule: { any: REFERENCE_KINDS[lang].map((kind) => ({ kind })) } });
+    for (const node of nodes) {
+      const name = node.text();
+      if (name.length < 2) continue;
+      const line = node.range().start.line + 1;
+      const key = `${line}:${name}`;
+      if (declared.has(key) || seen.has(key)) continue;
+      seen.add(key);
+
+      const inImport = importRanges.some((r) => line - 1 >= r.start.line && line - 1 <= r.end.line);
+      const kind = referenceKind(node, inImport);
+      (references[name] ??= []).push(file, line, REFERENCE_KIND_CODES.indexOf(kind));
+      referenceCount++;
+    }
+  }
+
+  const data: SymbolIndexData = {
+    version: INDEX_VERSION,
+    builtAt: new Date().toISOString(),
+    files,
+    definitions,
+    references,
+  };
+  const json = JSON.stringify(data);
+
+  const indexPath = getSymbolIndexPath(opensrcDir, source);
+  const tmpPath = `${indexPath}.${process.pid}-${threadId}.tmp`;
+  await mkdir(dirname(indexPath), { recursive: true });
+  await writeFile(tmpPath, json);
+  await rename(tmpPath, indexPath);
+
+  return {
+    builtAt: data.builtAt,
+    files: files.length,
+    definitions: definitions.length,
+    references: referenceCount,
+    bytes: Buffer.byteLength(json),
+    stale: false,
+  };
+}
+
+/**
+ * Load a source's symbol index, or null if missing, outdated or unreadable
+ */
+export async function loadSymbolIndex(opensrcDir: string, source: Source): Promise<SymbolIndex | null> {
+  let data: SymbolIndexData;
+  try {
+    data = JSON.parse(await readFile(getSymbolIndexPath(opensrcDir, source), "utf8"));
+  } catch {
+    return null;
+  }
+  if (data.version !== INDEX_VERSION) return null;
+
+  const byName = new Map<string, StoredDefinition[]>();
+  for (const definition of data.definitions) {
+    let list = byName.get(definition.name);
+    if (!list) byName.set(definition.name, (list = []));
+    list.push(definition);
+  }
+  return { data, byName };
+}
+
+/**
+ * Delete a source's symbol index
+ */
+export async function removeSymbolIndex(opensrcDir: string, source: Source): Promise<void> {
+  await rm(getSymbolIndexPath(opensrcDir, source), { force: true });
+}
+
+/**
+ * A symbol index is stale when its source was fetched (again) after it was built
+ */
+export function isSymbolIndexStale(index: SymbolIndex, source: Source): boolean {
+  return new Date(source.fetchedAt) > new Date(index.data.builtAt);
+}
+
+/**
+ * Report symbol index status for a source, or undefined when not built
+ */
+export async function symbolIndexStatus(
+  opensrcDir: string,
+  source: Source
+): Promise<SymbolIndexStatus | undefined> {
+  const index = await loadSymbolIndex(opensrcDir, source);
+  if (!index) return undefined;
+
+  const { size } = await stat(getSymbolIndexPath(opensrcDir, source));
+  return {
+    builtAt: index.data.builtAt,
+    files: index.data.files.length,
+    definitions: index.data.definitions.length,
+    references: Object.values(index.data.references).reduce((n, refs) => n + refs.length / 3, 0),
+    bytes: size,
+    stale: isSymbolIndexStale(index, source),
+  };
+}
+
+// ── Ranking ─────────────────────────────────────────────────────────────────
+
+const TEST_FILE = /(^|\/)(tests?|__tests__|spec|__mocks__|fixtures?)\/|\.(test|spec)\.[^/]+$|(^|\/)test_[^/]+\.py$|_test\.go$/;
+const SECONDARY_FILE = /(^|\/)(examples?|docs?|benchmarks?|scripts?|playground|dist|build)\/|\.d\.[cm]?ts$/;
+const TYPESCRIPT_FILE = /\.[cm]?tsx?$/;
+
+const DECLARATION_KINDS = new Set<OutlineSymbolKind>([
+  "class",
+  "interface",
+  "struct",
+  "trait",
+  "enum",
+  "type",
+  "function",
+  "module",
+]);
+
+// Where a file sits: library code first, then build output, examples and
+// docs, then tests. TypeScript outranks JavaScript, which is often compiled from it.
+function fileRank(file: string): number {
+  if (TEST_FILE.test(file)) return -3;
+  if (SECONDARY_FILE.test(file)) return -1;
+  return TYPESCRIPT_FILE.test(file) ? 1 : 0;
+}
+
+function definitionRank(definition: StoredDefinition, file: string): number {
+  return (
+    fileRank(file) +
+    (definition.exported ? 3 : 0) +
+    (definition.container ? 0 : 2) +
+    (DECLARATION_KINDS.has(definition.kind) ? 2 : definition.kind === "impl" ? -1 : 0)
+  );
+}
+
+function toDefinition(source: Source, index: SymbolIndex, d: StoredDefinition): SymbolDefinition {
+  return {
+    source: source.id,
+    file: index.data.files[d.file],
+    line: d.line,
+    endLine: d.endLine,
+    kind: d.kind,
+    name: d.name,
+    ...(d.container ? { container: d.container } : {}),
+    signature: d.signature,
+    exported: d.exported,
+  };
+}
+
+// Sort ranked entries best first, then by path and line
+function byRank<T extends { file: string; line: number }>(ranked: { rank: number; item: T }[]): T[] {
+  return ranked
+    .sort(
+      (a, b) =>
+        b.rank - a.rank ||
+        a.item.file.split("/").length - b.item.file.split("/").length ||
+        a.item.file.localeCompare(b.item.file) ||
+        a.item.line - b.item.line
+    )
+    .map((r) => r.item);
+}
+
+/**
+ * Definitions of a name ("ZodString" or "ZodString.email") across indexes,
+ * best first: exported, top-level declarations in library code
+ */
+export function findDefinitions(
+  indexes: { source: Source; index: SymbolIndex }[],
+  name: string
+): SymbolDefinition[] {
+  const dot = name.lastIndexOf(".");
+  const container = dot > 0 ? name.slice(0, dot) : undefined;
+  const member = dot > 0 ? name.slice(dot + 1) : name;
+
+  const ranked: { rank: number; item: SymbolDefinition }[] = [];
+  for (const { source, index } of indexes) {
+    const candidates = [...(index.byName.get(name) ?? [])];
+    if (container) {
+      candidates.push(...(index.byName.get(member) ?? []).filter((d) => d.container === container));
+    }
+    for (const d of candidates) {
+      ranked.push({ rank: definitionRank(d, index.data.files[d.file]), item: toDefinition(source, index, d) });
+    }
+  }
+  return byRank(ranked);
+}
+
+/**
+ * References to a name across indexes, best first: calls and type uses in
+ * library code before imports and tests
+ */
+export function findReferences(
+  indexes: { source: Source; index: SymbolIndex }[],
+  name: string
+): SymbolReference[] {
+  const member = name.slice(name.lastIndexOf(".") + 1);
+
+  const ranked: { rank: number; item: SymbolReference }[] = [];
+  for (const { source, index } of indexes) {
+    const refs = index.data.references[member] ?? [];
+    for (let i = 0; i < refs.length; i += 3) {
+      const file = index.data.files[refs[i]];
+      const kind = REFERENCE_KIND_CODES[refs[i + 2]];
+      ranked.push({
+        rank: fileRank(file) + (kind === "import" ? -1 : 0),
+        item: { source: source.id, file, line: refs[i + 1], kind },
+      });
+    }
+  }
+  return byRank(ranked);
+}
+
+// How well a name matches a query: exact, prefix, substring, then subsequence
+function matchRank(name: string, query: string): number {
+  if (name === query) return 100;
+  const lower = name.toLowerCase();
+  const q = query.toLowerCase();
+  if (lower === q) return 90;
+  if (name.startsWith(query)) return 80;
+  if (lower.startsWith(q)) return 70;
+  if (lower.includes(q)) return 50;
+
+  let i = 0;
+  for (const ch of lower) if (ch === q[i]) i++;
+  return i === q.length ? 20 : -1;
+}
+
+/**
+ * Search a source's definitions by name, best matches first
+ */
+export function searchSymbols(
+  source: Source,
+  index: SymbolIndex,
+  query: string,
+  kinds?: OutlineSymbolKind[]
+): SymbolDefinition[] {
+  const ranked: { rank: number; item: SymbolDefinition }[] = [];
+  for (const [name, definitions] of index.byName) {
+    const match = matchRank(name, query);
+    if (match < 0) continue;
+    for (const d of definitions) {
+      if (kinds && !kinds.includes(d.kind)) continue;
+      ranked.push({
+        rank: match + definitionRank(d, index.data.files[d.file]),
+        item: toDefinition(source, index, d),
+      });
+    }
+  }
+  return byRank(ranked);
+}
@@ -0,0 +1,291 @@
+import { join, resolve } from "node:path";
+import { rename, rm } from "node:fs/promises";
+import { existsSync } from "node:fs";
+import type { Source, SyncOptions, SyncEntry, SyncResult, SourceStatus, StatusResult } from "../types.js";
+import { readSources, removeSources, versionOf, versionStoreOf } from "../sources.js";
+import { createLogger } from "../logger.js";
+import { FileReadError, LockfileNotFoundError } from "../errors.js";
+import type { UsageTracker } from "../budget.js";
+import { isLocalSource, refetchSpec, type OpensrcFetchResult } from "./remotes.js";
+import {
+  LOCKFILES,
+  MANIFESTS,
+  GIT_MANIFESTS,
+  parseLockfile,
+  parseGitDependencies,
+  specFor,
+  normalizeName,
+  matchesName,
+  type LockedDependency,
+  type GitDependency,
+} from "./lockfiles.js";
+
+const log = createLogger("api");
+
+/**
+ * A spec fetched by one fetch call, with the store it went to
+ */
+export interface FetchedSpec {
+  spec: string;
+  cwd: string;
+  result: OpensrcFetchResult;
+}
+
+/**
+ * What sync and status use of the opensrc API they belong to
+ */
+export interface SyncContext {
+  projectDir: string;
+  opensrcDir: string;
+  usage: UsageTracker;
+  getSources: () => Source[];
+  updateSources: (sources: Source[]) => void;
+  /** Read a project file, charged like source files */
+  readProjectFile: (file: string) => Promise<string>;
+  /** Fetch specs into their stores; `inPlace` replaces default versions */
+  fetchSpecs: (specs: string[], modify: boolean, inPlace?: boolean) => Promise<{ fetched: FetchedSpec[]; sources: Source[] }>;
+  /** Source a successful fetch produced */
+  fetchedSource: (sources: Source[], cwd: string, result: OpensrcFetchResult) => Source | undefined;
+  indexSources: (sources: Source[]) => Promise<void>;
+  dropIndexes: (removed: Source[], remaining: Source[]) => Promise<void>;
+}
+
+/**
+ * Create opensrc.sync and opensrc.status, which compare fetched sources
+ * with the dependencies the project locks and declares
+ */
+export function createSyncAPI(context: SyncContext): {
+  sync(options?: SyncOptions): Promise<SyncResult>;
+  status(options?: { refetch?: boolean }): Promise<StatusResult>;
+} {
+  const { projectDir, opensrcDir, usage, getSources, updateSources, readProjectFile, fetchSpecs, fetchedSource } = context;
+
+  // Dependencies locked by the project, one per registry, name and version.
+  // requirements.txt is only read when there is no poetry.lock.
+  const readLockfiles = async (): Promise<{ lockfiles: string[]; locked: LockedDependency[] }> => {
+    const lockfiles = LOCKFILES.filter(
+      (file) =>
+        existsSync(join(projectDir, file)) &&
+        !(file === "requirements.txt" && existsSync(join(projectDir, "poetry.lock")))
+    );
+
+    const locked = new Map<string, LockedDependency>();
+    for (const file of lockfiles) {
+      const manifest = MANIFESTS[file];
+      const text = await readProjectFile(file);
+      const manifestText =
+        manifest && existsSync(join(projectDir, manifest)) ? await readProjectFile(manifest) : undefined;
+      let deps: LockedDependency[];
+      try {
+        deps = parseLockfile(file, text, manifestText);
+      } catch (e) {
+        throw new FileReadError(file, e);
+      }
+      for (const dep of deps) {
+        const key = `${dep.registry}:${normalizeName(dep.registry, dep.name)}@${dep.version}`;
+        const seen = locked.get(key);
+        if (seen) seen.direct ||= dep.direct;
+        else locked.set(key, dep);
+      }
+    }
+    return { lockfiles, locked: [...locked.values()] };
+  };
+
+  return {
+    sync: async (options: SyncOptions = {}): Promise<SyncResult> => {
+      const { direct = false, dryRun = false } = options;
+      const includes = options.include === undefined ? [] : [options.include].flat();
+      const excludes = options.exclude === undefined ? [] : [options.exclude].flat();
+
+      const { lockfiles, locked } = await readLockfiles();
+      if (lockfiles.length === 0) throw new LockfileNotFoundError(projectDir, LOCKFILES);
+      log.info("sync", { lockfiles, direct, include: includes, exclude: excludes, dryRun });
+
+      const sources = getSources();
+      const entries: SyncEntry[] = [];
+      for (const dep of locked) {
+        if (direct && !dep.direct) continue;
+        if (includes.length > 0 && !matchesName(dep.name, includes)) continue;
+        if (excludes.length > 0 && matchesName(dep.name, excludes)) continue;
+
+        const { name, version, registry, lockfile } = dep;
+        const entry: SyncEntry = { name, version, registry, lockfile, direct: dep.direct, status: "fetch" };
+        if (dep.unsupported) {
+          entries.push({ ...entry, status: "unsupported", reason: dep.unsupported });
+          continue;
+        }
+
+        const versions = sources.filter(
+          (s) => s.type === registry && normalizeName(registry, s.name) === normalizeName(registry, name)
+        );
+        const match = versions.find((s) => versionOf(s) === version);
+        if (match) {
+          entries.push({ ...entry, status: "fetched", source: match.id });
+        } else if (versions.length > 0) {
+          entries.push({ ...entry, status: "mismatch", spec: specFor(dep), fetchedVersions: versions.map(versionOf) });
+        } else {
+          entries.push({ ...entry, spec: specFor(dep) });
+        }
+      }
+      entries.sort((a, b) => a.name.localeCompare(b.name) || a.version.localeCompare(b.version));
+
+      const result: SyncResult = { lockfiles, dependencies: entries, fetched: 0, failed: 0 };
+      const pending = entries.filter((e) => e.status === "fetch" || e.status === "mismatch");
+      if (dryRun || pending.length === 0) return result;
+
+      // Charged up front so an oversized sync fails before fetching anything
+      usage.chargeFetches(pending.length);
+      const { fetched, sources: newSources } = await fetchSpecs(
+        pending.map((e) => e.spec!),
+        false
+      );
+
+      const indexed: Source[] = [];
+      for (const { spec, cwd, result: r } of fetched) {
+        const entry = pending.find((e) => e.spec === spec)!;
+        const source = r.success ? fetchedSource(newSources, cwd, r) : undefined;
+        if (source) {
+          entry.source = source.id;
+          indexed.push(source);
+          result.fetched++;
+        } else {
+          entry.error = r.error ?? "source not found after fetch";
+          result.failed++;
+        }
+      }
+
+      await context.indexSources(indexed);
+      return result;
+    },
+
+    status: async (options: { refetch?: boolean } = {}): Promise<StatusResult> => {
+      const { lockfiles, locked } = await readLockfiles();
+      const manifests = GIT_MANIFESTS.filter((file) => existsSync(join(projectDir, file)));
+      if (lockfiles.length === 0 && manifests.length === 0) {
+        throw new LockfileNotFoundError(projectDir, [...new Set([...LOCKFILES, ...GIT_MANIFESTS])]);
+      }
+      log.info("status", { lockfiles, manifests, refetch: options.refetch });
+
+      const gitDeps: GitDependency[] = [];
+      for (const file of manifests) {
+        const text = await readProjectFile(file);
+        try {
+          gitDeps.push(...parseGitDependencies(file, text));
+        } catch (e) {
+          throw new FileReadError(file, e);
+        }
+      }
+
+      const sources = getSources();
+      const statuses: SourceStatus[] = sources.map((source) => {
+        const entry = { source: source.id, type: source.type, version: versionOf(source) };
+        if (source.type === "repo") {
+          const declared = gitDeps.filter((d) => d.repo.toLowerCase() === source.name.toLowerCase());
+          // Local copies are not matched against the project's path dependencies
+          if (declared.length === 0) return { ...entry, status: isLocalSource(source) ? "local" : "unused" };
+          const refs = [...new Set(declared.flatMap((d) => (d.ref ? [d.ref] : [])))];
+          if (refs.length === 0) return { ...entry, status: "current" };
+          return { ...entry, status: refs.includes(entry.version) ? "current" : "ref-mismatch", declared: refs };
+        }
+
+        const name = normalizeName(source.type, source.name);
+        const versions = locked
+          .filter((d) => d.registry === source.type && normalizeName(d.registry, d.name) === name && d.version)
+          .map((d) => d.version);
+        if (versions.length === 0) return { ...entry, status: "unused" };
+        return { ...entry, status: versions.includes(entry.version) ? "current" : "outdated", locked: versions };
+      });
+
+      const result: StatusResult = { lockfiles, manifests, sources: statuses, refetched: 0, failed: 0 };
+      if (!options.refetch) return result;
+
+      // Default versions are refetched in place so their bare ids read what the
+      // project uses; versions fetched side by side are left alone
+      const stale = statuses.flatMap((entry) => {
+        const source = sources.find((s) => s.id === entry.source)!;
+        if (versionStoreOf(source) || (entry.status !== "outdated" && entry.status !== "ref-mismatch")) return [];
+        if (source.type === "repo") {
+          const ref = entry.declared![0];
+          return [{ entry, source, target: ref, spec: refetchSpec(source, ref) }];
+        }
+        const pinned = locked.filter(
+          (d) =>
+            d.registry === source.type &&
+            normalizeName(d.registry, d.name) === normalizeName(source.type, source.name) &&
+            !d.unsupported
+        );
+        if (pinned.length === 0) return [];
+        // The version the project declares, else the newest locked one
+        const direct = pinned.filter((d) => d.direct);
+        const target = (direct.length === 1 ? direct : pinned)
+          .map((d) => d.version)
+          .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+          .at(-1)!;
+        return [{ entry, source, target, spec: specFor({ name: source.name, version: target, registry: source.type }) }];
+      });
+      if (stale.length === 0) return result;
+
+      usage.chargeFetches(stale.length);
+
+      // opensrc deletes a checkout before cloning its replacement; keep the
+      // old one aside to restore when the refetch fails
+      const backups = new Map<string, string>();
+      for (const { source } of stale) {
+        const dir = resolve(opensrcDir, source.path);
+        if (backups.has(dir) || !existsSync(dir)) continue;
+        await rename(dir, `${dir}.refetch`);
+        backups.set(dir, `${dir}.refetch`);
+      }
+
+      let fetched: FetchedSpec[] = [];
+      let refreshed: Source[] = [];
+      try {
+        ({ fetched, sources: refreshed } = await fetchSpecs(
+          stale.map((s) => s.spec),
+          false,
+          true
+        ));
+      } finally {
+        for (const [dir, backup] of backups) {
+          const refetchedDir = fetched.some(
+            ({ spec, result: r }) => r.success && resolve(opensrcDir, stale.find((s) => s.spec === spec)!.source.path) === dir
+          );
+          if (refetchedDir && existsSync(dir)) {
+            await rm(backup, { recursive: true, force: true });
+          } else {
+            await rm(dir, { recursive: true, force: true });
+            await rename(backup, dir);
+          }
+        }
+      }
+
+      const refetched: Source[] = [];
+      for (const { spec, cwd, result: r } of fetched) {
+        const { entry, target } = stale.find((s) => s.spec === spec)!;
+        const source = r.success ? fetchedSource(refreshed, cwd, r) : undefined;
+        if (source) {
+          entry.refetched = target;
+          refetched.push(source);
+          result.refetched++;
+        } else {
+          entry.error = r.error ?? "source not found after fetch";
+          result.failed++;
+        }
+      }
+
+      // Versions fetched side by side that are now the default are redundant
+      const redundant = refreshed.filter(
+        (s) => versionStoreOf(s) && refetched.some((r) => r.name === s.name && versionOf(r) === versionOf(s))
+      );
+      if (redundant.length > 0) {
+        await removeSources(redundant);
+        const remaining = await readSources();
+        updateSources(remaining);
+        await context.dropIndexes(redundant, remaining);
+      }
+
+      await context.indexSources(refetched);
+      return result;
+    },
+  };
+}
@@ -0,0 +1,358 @@
+import { join, dirname } from "node:path";
+import { readFile, writeFile, rename, rm, mkdir, stat } from "node:fs/promises";
+import { threadId } from "node:worker_threads";
+import fg from "fast-glob";
+import type { GrepOptions, IndexStatus, Source } from "../types.js";
+import { isBinary } from "./grep.js";
+
+/**
+ * On-disk trigram index for one source.
+ *
+ * Layout: [u32 header length][header JSON, padded to 4 bytes][u32 trigram count]
+ * then per trigram, sorted by key: [u32 key][u32 count][count x u32 file id].
+ * Trigrams are taken from lowercased content, so the index narrows both
+ * case-sensitive and case-insensitive searches.
+ */
+
+const INDEX_VERSION = 1;
+
+// Files larger than this, or beyond the per-source cap, are left unindexed
+// and always scanned by grep
+const MAX_FILE_BYTES = 1024 * 1024;
+const MAX_INDEX_BYTES = 64 * 1024 * 1024;
+
+// Same exclusions grep applies
+const INDEX_IGNORE = ["**/node_modules/**", "**/.git/**", "**/*.min.js"];
+
+interface IndexHeader {
+  version: number;
+  builtAt: string;
+  /** Indexed files; position is the file id used in postings */
+  files: string[];
+  /** Files skipped for size; grep always scans them */
+  skipped: string[];
+}
+
+/**
+ * Loaded index: header plus trigram → posting offset lookup
+ */
+export interface TrigramIndex {
+  header: IndexHeader;
+  fileIds: Map<string, number>;
+  postings: Map<number, { offset: number; count: number }>;
+  buffer: Buffer;
+}
+
+/**
+ * Path of the index file for a source
+ */
+export function getIndexPath(opensrcDir: string, source: Source): string {
+  return join(opensrcDir, "index", `${source.path}.trigrams`);
+}
+
+/**
+ * Trigram key for 3 UTF-16 code units. Non-ASCII units are folded, which can
+ * only add false positives (extra candidates), never drop matches.
+ */
+function trigramKey(text: string, i: number): number {
+  return (
+    (((text.charCodeAt(i) & 0x7ff) << 21) |
+      ((text.charCodeAt(i + 1) & 0x7ff) << 10) |
+      (text.charCodeAt(i + 2) & 0x3ff)) >>>
+    0
+  );
+}
+
+function trigramsOf(text: string): Set<number> {
+  const lower = text.toLowerCase();
+  const keys = new Set<number>();
+  for (let i = 0; i + 2 < lower.length; i++) {
+    keys.add(trigramKey(lower, i));
+  }
+  return keys;
+}
+
+/**
+ * Build (or rebuild) the index for a source and write it atomically
+ */
+export async function buildIndex(opensrcDir: string, source: Source): Promise<IndexStatus> {
+  const sourcePath = join(opensrcDir, source.path);
+  const entries = await fg("**/*", {
+    cwd: sourcePath,
+    ignore: INDEX_IGNORE,
+    onlyFiles: true,
+    stats: true,
+  });
+
+  const files: string[] = [];
+  const skipped: string[] = [];
+  const postings = new Map<number, number[]>();
+  let indexedBytes = 0;
+
+  for (const entry of entries) {
+    const size = entry.stats?.size ?? 0;
+    if (size > MAX_FILE_BYTES || indexedBytes + size > MAX_INDEX_BYTES) {
+      skipped.push(entry.path);
+      continue;
+    }
+
+    let content: string;
+    try {
+      content = await readFile(join(sourcePath, entry.path), "utf8");
+    } catch {
+      skipped.push(entry.path);
+      continue;
+    }
+
+    const id = files.length;
+    files.push(entry.path);
+    indexedBytes += size;
+
+    // Binary files never match grep; index them with no trigrams
+    if (isBinary(content)) continue;
+
+    for (const key of trigramsOf(content)) {
+      let list = postings.get(key);
+      if (!list) postings.set(key, (list = []));
+      list.push(id);
+    }
+  }
+
+  const header: IndexHeader = {
+    version: INDEX_VERSION,
+    builtAt: new Date().toISOString(),
+    files,
+    skipped,
+  };
+  const headerBytes = Buffer.from(JSON.stringify(header), "utf8");
+  const headerLength = Math.ceil(headerBytes.length / 4) * 4;
+
+  const keys = [...postings.keys()].sort((a, b) => a - b);
+  let size = 4 + headerLength + 4;
+  for (const key of keys) size += 8 + 4 * postings.get(key)!.length;
+
+  const buffer = Buffer.alloc(size);
+  let offset = 0;
+  buffer.writeUInt32LE(headerLength, offset);
+  offset += 4;
+  headerBytes.copy(buffer, offset);
+  buffer.fill(0x20, offset + headerBytes.length, offset + headerLength);
+  offset += headerLength;
+  buffer.writeUInt32LE(keys.length, offset);
+  offset += 4;
+  for (const key of keys) {
+    const ids = postings.get(key)!;
+    buffer.writeUInt32LE(key, offset);
+    buffer.writeUInt32LE(ids.length, offset + 4);
+    offset += 8;
+    for (const id of ids) {
+      buffer.writeUInt32LE(id, offset);
+      offset += 4;
+    }
+  }
+
+  const indexPath = getIndexPath(opensrcDir, source);
+  const tmpPath = `${indexPath}.${process.pid}-${threadId}.tmp`;
+  await mkdir(dirname(indexPath), { recursive: true });
+  await writeFile(tmpPath, buffer);
+  await rename(tmpPath, indexPath);
+
+  return {
+    source: source.id,
+    indexed: true,
+    builtAt: header.builtAt,
+    files: files.length,
+    skippedFiles: skipped.length,
+    bytes: size,
+    stale: false,
+  };
+}
+
+/**
+ * Load a source's index, or null if missing, outdated or unreadable
+ */
+export async function loadIndex(opensrcDir: string, source: Source): Promise<TrigramIndex | null> {
+  let buffer: Buffer;
+  try {
+    buffer = await readFile(getIndexPath(opensrcDir, source));
+  } catch {
+    return null;
+  }
+
+  try {
+    const headerLength = buffer.readUInt32LE(0);
+    const header = JSON.parse(buffer.toString("utf8", 4, 4 + headerLength)) as IndexHeader;
+    if (header.version !== INDEX_VERSION) return null;
+
+    const postings = new Map<number, { offset: number; count: number }>();
+    let offset = 4 + headerLength;
+    const trigramCount = buffer.readUInt32LE(offset);
+    offset += 4;
+    for (let i = 0; i < trigramCount; i++) {
+      const key = buffer.readUInt32LE(offset);
+      const count = buffer.readUInt32LE(offset + 4);
+      postings.set(key, { offset: offset + 8, count });
+      offset += 8 + 4 * count;
+    }
+
+    const fileIds = new Map(header.files.map((file, id) => [file, id]));
+    return { header, fileIds, postings, buffer };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Delete a source's index
+ */
+export async function removeIndex(opensrcDir: string, source: Source): Promise<void> {
+  await rm(getIndexPath(opensrcDir, source), { force: true });
+}
+
+/**
+ * An index is stale when its source was fetched (again) after it was built
+ */
+export function isStale(index: TrigramIndex, source: Source): boolean {
+  return new Date(source.fetchedAt) > new Date(index.header.builtAt);
+}
+
+/**
+ * Report index status for a source
+ */
+export async function indexStatus(opensrcDir: string, source: Source): Promise<IndexStatus> {
+  const index = await loadIndex(opensrcDir, source);
+  if (!index) return { source: source.id, indexed: false };
+
+  const { size } = await stat(getIndexPath(opensrcDir, source));
+  return {
+    source: source.id,
+    indexed: true,
+    builtAt: index.header.builtAt,
+    files: index.header.files.length,
+    skippedFiles: index.header.skipped.length,
+    bytes: size,
+    stale: isStale(index, source),
+  };
+}
+
+/**
+ * Extract literal runs every match must contain, or null when the pattern
+ * has no usable literal (or uses top-level alternation).
+ * Conservative: anything not understood ends the current run.
+ */
+function requiredLiterals(pattern: string, options: GrepOptions): string[] | null {
+  if (options.fixedStrings) return [pattern];
+
+  const runs: string[] = [];
+  let run = "";
+  let depth = 0;
+  const flush = () => {
+    if (run.length >= 3) runs.push(run);
+    run = "";
+  };
+
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+
+    if (ch === "\\") {
+      const next = pattern[i + 1];
+      i++;
+      // Escaped punctuation is a literal; \w, \d, \b, \u.... etc. are not
+      if (depth === 0 && next !== undefined && /[^A-Za-z0-9]/.test(next)) {
+        run += next;
+      } else {
+        flush();
+      }
+      continue;
+    }
+
+    if (ch === "(") {
+      flush();
+      depth++;
+      continue;
+    }
+    if (ch === ")") {
+      depth = Math.max(depth - 1, 0);
+      flush();
+      continue;
+    }
+    if (depth > 0) continue;
+
+    if (ch === "|") return null;
+    if (ch === "[") {
+      flush();
+      // Skip the character class
+      for (i++; i < pattern.length && pattern[i] !== "]"; i++) {
+        if (pattern[i] === "\\") i++;
+      }
+      continue;
+    }
+    if (ch === "?" || ch === "*") {
+      // The previous character is optional: drop it
+      run = run.slice(0, -1);
+      flush();
+      continue;
+    }
+    if (ch === "{") {
+      // A quantifier ({n}, {n,}, {n,m}) counts the previous character: drop
+      // it and skip the counts. Any other brace is a literal, left out.
+      const quantifier = pattern.slice(i).match(/^\{\d+(?:,\d*)?\}/);
+      if (quantifier) {
+        run = run.slice(0, -1);
+        i += quantifier[0].length - 1;
+      }
+      flush();
+      continue;
+    }
+    if (".^$+}".includes(ch)) {
+      flush();
+      continue;
+    }
+
+    run += ch;
+  }
+  flush();
+
+  return runs.length > 0 ? runs : null;
+}
+
+/**
+ * Narrow a file list to candidates that may match the pattern.
+ * Files the index does not cover (new, skipped) are always kept.
+ */
+export function filterCandidates(
+  index: TrigramIndex,
+  files: string[],
+  pattern: string,
+  options: GrepOptions
+): string[] {
+  const literals = requiredLiterals(pattern, options);
+  if (!literals) return files;
+
+  let candidates: Set<number> | null = null;
+  for (const literal of literals) {
+    for (const key of trigramsOf(literal)) {
+      const posting = index.postings.get(key);
+      if (!posting) {
+        candidates = new Set();
+        break;
+      }
+
+      const ids = new Set<number>();
+      for (let i = 0; i < posting.count; i++) {
+        const id = index.buffer.readUInt32LE(posting.offset + i * 4);
+        if (!candidates || candidates.has(id)) ids.add(id);
+      }
+      candidates = ids;
+      if (candidates.size === 0) break;
+    }
+    if (candidates && candidates.size === 0) break;
+  }
+
+  if (!candidates) return files;
+  const matched = candidates;
+  return files.filter((file) => {
+    const id = index.fileIds.get(file);
+    return id === undefined || matched.has(id);
+  });
+}
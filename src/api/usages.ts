@@ -0,0 +1,324 @@
+import type { SgNode } from "@ast-grep/napi";
+import { moduleSpecifiers, moduleStatements } from "./modules.js";
+
+/**
+ * Where a project file uses a package: the statements importing it and
+ * every use of the names they bind (opensrc.usages). Names are matched by
+ * text, ignoring shadowing by local declarations.
+ */
+
+// Languages whose imports are understood, by the ecosystem they import from
+export const USAGE_LANGS: Record<string, Ecosystem> = {
+  javascript: "js",
+  typescript: "js",
+  tsx: "js",
+  python: "python",
+  rust: "rust",
+};
+
+export type Ecosystem = "js" | "python" | "rust";
+
+/**
+ * Statement importing a package, e.g. `import { z } from "zod"`
+ */
+export interface ImportSite {
+  /** Module as written: "zod/v4", "requests.adapters", "serde::de" */
+  module: string;
+  line: number;
+}
+
+/**
+ * Use of a name imported from a package
+ */
+export interface NameUse {
+  module: string;
+  /** Exported name; "*" when the whole module is bound (`import * as z`, `import requests`) */
+  imported: string;
+  /** Property accessed on the name: `z.object` → "object" */
+  member?: string;
+  line: number;
+}
+
+/**
+ * A local name bound to something a package exports
+ */
+interface Binding {
+  module: string;
+  imported: string;
+}
+
+const kindOf = (node: SgNode): string => node.kind() as string;
+const line = (node: SgNode) => node.range().start.line + 1;
+const unquote = (node: SgNode | null) => node?.text().slice(1, -1);
+
+// Whether a node lies within one of the ranges (byte offsets)
+const within = (node: SgNode, ranges: [number, number][]) => {
+  const { start, end } = node.range();
+  return ranges.some(([from, to]) => start.index >= from && end.index <= to);
+};
+
+const rangeOf = (node: SgNode): [number, number] => [node.range().start.index, node.range().end.index];
+
+// Member access nodes, by kind: [object field, member field]
+const MEMBER_ACCESS: Record<string, [string, string]> = {
+  member_expression: ["object", "property"],
+  nested_type_identifier: ["module", "name"],
+  attribute: ["object", "attribute"],
+  scoped_identifier: ["path", "name"],
+  scoped_type_identifier: ["path", "name"],
+};
+
+// Node in one field of the member access a node is a child of
+function accessField(node: SgNode, index: 0 | 1): SgNode | null | undefined {
+  const parent = node.parent();
+  const fields = parent && MEMBER_ACCESS[kindOf(parent)];
+  return fields && parent.field(fields[index]);
+}
+
+// Property accessed on a node when it is the object of a member access
+function memberOf(node: SgNode): string | undefined {
+  const parent = node.parent();
+  if (accessField(node, 0)?.id() !== node.id()) return undefined;
+  return parent?.field(MEMBER_ACCESS[kindOf(parent)][1])?.text();
+}
+
+/**
+ * Uses of the bound names outside their import statements
+ */
+function usesOf(
+  root: SgNode,
+  bindings: Map<string, Binding>,
+  skip: [number, number][],
+  kinds: string[]
+): NameUse[] {
+  if (bindings.size === 0) return [];
+  const uses: NameUse[] = [];
+  for (const node of root.findAll({ rule: { any: kinds.map((kind) => ({ kind })) } })) {
+    const binding = bindings.get(node.text());
+    // `x.get` is not a use of an imported `get`
+    if (!binding || within(node, skip) || accessField(node, 1)?.id() === node.id()) continue;
+    const member = memberOf(node);
+    uses.push({ ...binding, ...(member ? { member } : {}), line: line(node) });
+  }
+  return uses;
+}
+
+/**
+ * JS/TS: ESM imports and re-exports, `import x = require()`, and
+ * `require()` bound to a name, destructured, or accessed directly
+ */
+function scanJs(
+  root: SgNode,
+  matches: (module: string) => boolean,
+  lang: string
+): { imports: ImportSite[]; uses: NameUse[] } {
+  const imports = moduleSpecifiers(root)
+    .filter((s) => matches(s.specifier))
+    .map((s) => ({ module: s.specifier, line: s.line }));
+  if (imports.length === 0) return { imports, uses: [] };
+
+  const bindings = new Map<string, Binding>();
+  const skip: [number, number][] = [];
+  const uses: NameUse[] = [];
+
+  const { imports: bound, exports } = moduleStatements(root);
+  for (const [local, binding] of bound) {
+    if (matches(binding.from)) bindings.set(local, { module: binding.from, imported: binding.imported });
+  }
+  for (const statement of exports) {
+    if (statement.type === "reexport" && matches(statement.from)) {
+      uses.push({ module: statement.from, imported: statement.imported, line: statement.line });
+    }
+  }
+  for (const node of root.findAll({ rule: { any: [{ kind: "import_statement" }, { kind: "export_statement" }] } })) {
+    if (!matches(unquote(node.field("source")) ?? "")) {
+      // `import x = require("zod")`
+      const clause = node.children().find((c) => kindOf(c) === "import_require_clause");
+      const module = unquote(clause?.children().find((c) => kindOf(c) === "string") ?? null);
+      const local = clause?.children().find((c) => kindOf(c) === "identifier");
+      if (!module || !local || !matches(module)) continue;
+      bindings.set(local.text(), { module, imported: "*" });
+    }
+    skip.push(rangeOf(node));
+  }
+
+  // require("zod") and await import("zod")
+  const loaders = root.findAll({
+    rule: {
+      kind: "call_expression",
+      has: { field: "function", any: [{ kind: "import" }, { kind: "identifier", regex: "^require$" }] },
+    },
+  });
+  for (const call of loaders) {
+    const arg = call.field("arguments")?.children().find((c) => c.isNamed());
+    const module = arg && kindOf(arg) === "string" ? unquote(arg)! : undefined;
+    if (!module || !matches(module)) continue;
+
+    let loaded = call;
+    if (kindOf(call.parent() ?? call) === "await_expression") loaded = call.parent()!;
+    const member = memberOf(loaded);
+    if (member) {
+      uses.push({ module, imported: "*", member, line: line(call) });
+      continue;
+    }
+
+    const declarator = loaded.parent();
+    if (!declarator || kindOf(declarator) !== "variable_declarator") continue;
+    const name = declarator.field("name");
+    if (!name) continue;
+    skip.push(rangeOf(declarator));
+    if (kindOf(name) === "identifier") {
+      bindings.set(name.text(), { module, imported: "*" });
+    } else if (kindOf(name) === "object_pattern") {
+      for (const part of name.children()) {
+        if (kindOf(part) === "shorthand_property_identifier_pattern") {
+          bindings.set(part.text(), { module, imported: part.text() });
+        } else if (kindOf(part) === "pair_pattern") {
+          const key = part.field("key");
+          const value = part.field("value");
+          if (key && value && kindOf(value) === "identifier") {
+            bindings.set(value.text(), { module, imported: key.text() });
+          }
+        }
+      }
+    }
+  }
+
+  // Plain JavaScript has no type nodes
+  const kinds = ["identifier", "shorthand_property_identifier", ...(lang === "javascript" ? [] : ["type_identifier"])];
+  uses.push(...usesOf(root, bindings, skip, kinds));
+  return { imports, uses };
+}
+
+/**
+ * Python: `import a.b [as c]` and `from a.b import c [as d]`
+ */
+function scanPython(root: SgNode, matches: (module: string) => boolean): { imports: ImportSite[]; uses: NameUse[] } {
+  const imports: ImportSite[] = [];
+  const bindings = new Map<string, Binding>();
+  const skip: [number, number][] = [];
+
+  for (const node of root.findAll({ rule: { any: [{ kind: "import_statement" }, { kind: "import_from_statement" }] } })) {
+    const moduleName = node.field("module_name");
+    let found = false;
+
+    if (kindOf(node) === "import_statement") {
+      for (const part of node.children().filter((c) => c.isNamed())) {
+        const aliased = kindOf(part) === "aliased_import";
+        const module = (aliased ? part.field("name") : part)?.text();
+        if (!module || !matches(module)) continue;
+        found = true;
+        imports.push({ module, line: line(node) });
+        // `import a.b` binds `a`; `import a.b as c` binds the submodule
+        const local = aliased ? part.field("alias")!.text() : module.split(".")[0];
+        bindings.set(local, { module: aliased ? module : local, imported: "*" });
+      }
+    } else if (moduleName && kindOf(moduleName) === "dotted_name" && matches(moduleName.text())) {
+      const module = moduleName.text();
+      found = true;
+      imports.push({ module, line: line(node) });
+      for (const part of node.children().filter((c) => c.isNamed() && c.id() !== moduleName.id())) {
+        if (kindOf(part) === "dotted_name") {
+          bindings.set(part.text(), { module, imported: part.text() });
+        } else if (kindOf(part) === "aliased_import") {
+          const name = part.field("name")?.text();
+          const alias = part.field("alias")?.text();
+          if (name && alias) bindings.set(alias, { module, imported: name });
+        }
+      }
+    }
+    if (found) skip.push(rangeOf(node));
+  }
+
+  return { imports, uses: usesOf(root, bindings, skip, ["identifier"]) };
+}
+
+/**
+ * Paths a Rust `use` tree imports, with the names they bind
+ */
+function usePaths(node: SgNode, prefix: string, out: { path: string; local?: string }[]): void {
+  switch (kindOf(node)) {
+    case "identifier":
+    case "scoped_identifier":
+      out.push({ path: prefix + node.text(), local: node.field("name")?.text() ?? node.text() });
+      break;
+    case "self":
+      out.push({ path: prefix.slice(0, -2), local: prefix.slice(0, -2).split("::").pop() });
+      break;
+    case "use_as_clause": {
+      const path = node.field("path");
+      if (path) out.push({ path: prefix + path.text(), local: node.field("alias")?.text() });
+      break;
+    }
+    case "scoped_use_list": {
+      const path = node.field("path");
+      const list = node.field("list");
+      if (list) usePaths(list, path ? `${prefix}${path.text()}::` : prefix, out);
+      break;
+    }
+    case "use_list":
+      for (const child of node.children().filter((c) => c.isNamed())) usePaths(child, prefix, out);
+      break;
+    case "use_wildcard": {
+      const path = node.children().find((c) => c.isNamed());
+      out.push({ path: path ? prefix + path.text() : prefix.slice(0, -2) });
+      break;
+    }
+  }
+}
+
+/**
+ * Rust: `use` declarations, and paths through a crate name (`serde_json::to_string`),
+ * which need no `use`
+ */
+function scanRust(root: SgNode, matches: (module: string) => boolean): { imports: ImportSite[]; uses: NameUse[] } {
+  const imports: ImportSite[] = [];
+  const bindings = new Map<string, Binding>();
+  const skip: [number, number][] = [];
+
+  for (const node of root.findAll({ rule: { kind: "use_declaration" } })) {
+    const argument = node.field("argument");
+    if (!argument) continue;
+    const paths: { path: string; local?: string }[] = [];
+    usePaths(argument, "", paths);
+
+    let found = false;
+    for (const { path, local } of paths) {
+      const segments = path.split("::");
+      if (!matches(segments[0])) continue;
+      found = true;
+      imports.push({ module: path, line: line(node) });
+      if (!local) continue;
+      bindings.set(
+        local,
+        segments.length === 1
+          ? { module: path, imported: "*" }
+          : { module: segments.slice(0, -1).join("::"), imported: segments[segments.length - 1] }
+      );
+    }
+    if (found) skip.push(rangeOf(node));
+  }
+
+  const uses = usesOf(root, bindings, skip, ["identifier", "type_identifier"]);
+  for (const node of root.findAll({ rule: { kind: "identifier" } })) {
+    const crate = node.text();
+    if (bindings.has(crate) || !matches(crate) || within(node, skip)) continue;
+    const member = memberOf(node);
+    if (member) uses.push({ module: crate, imported: "*", member, line: line(node) });
+  }
+  return { imports, uses };
+}
+
+/**
+ * Imports of the modules `matches` accepts in a file parsed as `lang` (one
+ * of USAGE_LANGS), and the uses of the names they bind, in source order
+ */
+export function scanUsages(
+  lang: string,
+  root: SgNode,
+  matches: (module: string) => boolean
+): { imports: ImportSite[]; uses: NameUse[] } {
+  const scan = { js: scanJs, python: scanPython, rust: scanRust }[USAGE_LANGS[lang]];
+  const { imports, uses } = scan(root, matches, lang);
+  return { imports: imports.sort((a, b) => a.line - b.line), uses: uses.sort((a, b) => a.line - b.line) };
+}
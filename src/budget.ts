@@ -0,0 +1,132 @@
+import type { ExecutionBudget, UsageReport } from "./types.js";
+import { BudgetExceededError } from "./errors.js";
+
+/**
+ * Default per-execution budgets (overridable per execute call)
+ */
+export const DEFAULT_BUDGET: ExecutionBudget = {
+  maxFiles: 20000,
+  maxBytes: 100 * 1024 * 1024,
+  maxRegexMs: 10000,
+  maxFetches: 10,
+  maxOutputChars: 1000000,
+};
+
+/**
+ * Tracks resource usage for one execution and enforces its budget.
+ * Charge methods throw BudgetExceededError once a limit is crossed.
+ */
+export interface UsageTracker {
+  /** Charge one file about to be read (size in bytes) */
+  chargeFile(bytes: number): void;
+  /** Charge time spent evaluating regexes */
+  chargeRegex(ms: number): void;
+  /** Charge fetches about to start */
+  chargeFetches(count: number): void;
+  /** Charge the serialized size of the execution result */
+  chargeOutput(chars: number): void;
+  /** Record matches returned by a search (reported, not limited) */
+  countMatches(count: number): void;
+  /** Wrap API methods so each call is timed per operation (ops named `${prefix}${method}`) */
+  instrument<T extends object>(api: T, prefix?: string): T;
+  report(): UsageReport;
+}
+
+/**
+ * Create a usage tracker for one execution
+ */
+export function createUsageTracker(
+  budget: ExecutionBudget = DEFAULT_BUDGET,
+  onChange: (usage: UsageReport) => void = () => {}
+): UsageTracker {
+  const usage: UsageReport = {
+    filesRead: 0,
+    bytesRead: 0,
+    matches: 0,
+    fetches: 0,
+    regexMs: 0,
+    outputChars: 0,
+    ops: {},
+  };
+
+  const report = (): UsageReport => ({
+    ...usage,
+    regexMs: Math.round(usage.regexMs),
+    ops: Object.fromEntries(
+      Object.entries(usage.ops).map(([op, o]) => [op, { calls: o.calls, ms: Math.round(o.ms) }])
+    ),
+  });
+
+  const finishOp = (op: string, start: number) => {
+    const entry = (usage.ops[op] ??= { calls: 0, ms: 0 });
+    entry.calls += 1;
+    entry.ms += performance.now() - start;
+    onChange(report());
+  };
+
+  return {
+    chargeFile: (bytes: number) => {
+      if (usage.filesRead + 1 > budget.maxFiles) {
+        throw new BudgetExceededError("maxFiles", budget.maxFiles, usage.filesRead + 1);
+      }
+      if (usage.bytesRead + bytes > budget.maxBytes) {
+        throw new BudgetExceededError("maxBytes", budget.maxBytes, usage.bytesRead + bytes);
+      }
+      usage.filesRead += 1;
+      usage.bytesRead += bytes;
+    },
+
+    chargeRegex: (ms: number) => {
+      usage.regexMs += ms;
+      if (usage.regexMs > budget.maxRegexMs) {
+        throw new BudgetExceededError("maxRegexMs", budget.maxRegexMs, Math.round(usage.regexMs));
+      }
+    },
+
+    chargeFetches: (count: number) => {
+      if (usage.fetches + count > budget.maxFetches) {
+        throw new BudgetExceededError("maxFetches", budget.maxFetches, usage.fetches + count);
+      }
+      usage.fetches += count;
+    },
+
+    chargeOutput: (chars: number) => {
+      usage.outputChars = chars;
+      if (chars > budget.maxOutputChars) {
+        throw new BudgetExceededError("maxOutputChars", budget.maxOutputChars, chars);
+      }
+    },
+
+    countMatches: (count: number) => {
+      usage.matches += count;
+    },
+
+    instrument: <T extends object>(api: T, prefix = ""): T =>
+      Object.fromEntries(
+        Object.entries(api).map(([method, fn]) => {
+          if (typeof fn !== "function") return [method, fn];
+          const op = `${prefix}${method}`;
+          return [
+            method,
+            (...args: unknown[]) => {
+              const start = performance.now();
+              let result: unknown;
+              try {
+                result = fn(...args);
+              } catch (err) {
+                finishOp(op, start);
+                throw err;
+              }
+              if (result instanceof Promise) {
+                return result.finally(() => finishOp(op, start));
+              }
+              finishOp(op, start);
+              return result;
+            },
+          ];
+        })
+      ) as T,
+
+    report,
+  };
+}
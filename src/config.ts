@@ -31,3 +31,11 @@ export function getOpensrcCwd(): string {
 
   return process.env.XDG_DATA_HOME ?? join(homedir(), ".local", "share");
 }
+
+/**
+ * Whether sandbox code may read secrets files (.env*, keys) of the user's
+ * project. Denied unless $OPENSRC_PROJECT_SECRETS is "allow".
+ */
+export function getProjectSecretsAllowed(): boolean {
+  return process.env.OPENSRC_PROJECT_SECRETS === "allow";
+}
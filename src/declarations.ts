@@ -0,0 +1,451 @@
+/**
+ * Type declarations exposed to agent in tool description.
+ * Also used as the ambient declarations when type-checking agent code.
+ */
+export const TYPES = `
+interface Source {
+  id: string;                     // pass to the API: name for the default version, else "name@version"
+  type: "npm" | "pypi" | "crates" | "repo";
+  name: string;
+  version?: string;
+  ref?: string;
+  path: string;
+  fetchedAt: string;
+  repository: string;             // clone URL, or the directory of a path: source
+}
+
+interface FileEntry {
+  path: string;
+  size: number;
+  isDirectory: boolean;
+}
+
+interface TreeNode {
+  name: string;
+  type: "file" | "dir";
+  children?: TreeNode[];
+}
+
+interface GrepOptions {
+  sources?: string[];
+  include?: string;             // glob; "*.ts" matches basenames at any depth
+  exclude?: string | string[];  // globs to skip
+  maxResults?: number;          // default 100
+  caseSensitive?: boolean;      // default false
+  fixedStrings?: boolean;       // literal match, no regex
+  wordRegexp?: boolean;         // whole words only
+  multiline?: boolean;          // pattern may span lines ([\s\S] crosses newlines)
+  before?: number;              // context lines before each match
+  after?: number;               // context lines after each match
+  context?: number;             // before + after
+  filesOnly?: boolean;          // -> GrepFileMatch[]
+  count?: boolean;              // -> GrepCount[] (matching lines per file)
+}
+
+interface GrepResult {
+  source: string;
+  file: string;
+  line: number;
+  content: string;                          // matching line(s) as written, max 200 chars
+  matches: { start: number; end: number }[]; // 1-based columns in content, end exclusive (multiline: end is in endLine)
+  endLine?: number;                         // multiline matches
+  before?: string[];
+  after?: string[];
+}
+
+interface GrepFileMatch {
+  source: string;
+  file: string;
+}
+
+interface GrepCount {
+  source: string;
+  file: string;
+  count: number;
+}
+
+interface IndexStatus {
+  source: string;
+  indexed: boolean;
+  builtAt?: string;
+  files?: number;         // files covered by the index
+  skippedFiles?: number;  // too large to index; grep always scans them
+  bytes?: number;
+  stale?: boolean;        // source refetched since the index was built (grep ignores it)
+  symbols?: {             // symbol index used by definition/references/symbols
+    builtAt: string;
+    files: number;
+    definitions: number;
+    references: number;
+    bytes: number;
+    stale: boolean;
+  };
+}
+
+interface SymbolDefinition {
+  source: string;
+  file: string;
+  line: number;
+  endLine: number;
+  kind: string;                   // same kinds as OutlineSymbol
+  name: string;
+  container?: string;             // enclosing class/module/impl
+  signature: string;
+  exported: boolean;
+}
+
+interface SymbolReference {
+  source: string;
+  file: string;
+  line: number;
+  kind: "reference" | "call" | "type" | "import";
+}
+
+interface ImportResolution {
+  specifier: string;
+  // relative/paths (tsconfig): same source; workspace: a monorepo package in the same source;
+  // package: another fetched source; builtin: Node built-in; unfetched: fetch it first
+  kind: "relative" | "paths" | "workspace" | "package" | "builtin" | "unfetched";
+  source?: string;
+  file?: string;
+  fetch?: string;                 // spec for opensrc.fetch when kind is "unfetched"
+}
+
+interface EntryPoint {
+  specifier: string;              // import path, e.g. "zod/v4"
+  subpath: string;                // package.json subpath, e.g. "./v4"
+  file: string;
+  exports: ExportedSymbol[];
+}
+
+interface ExportedSymbol {
+  name: string;                   // "default" for the default export
+  kind?: string;                  // same kinds as OutlineSymbol
+  signature?: string;
+  doc?: string;
+  file: string;                   // defining file (re-export chains are followed)
+  line: number;
+  from?: string;                  // set when re-exported from another package; name "*" for \`export * from\`
+}
+
+interface ImportEdge {
+  from: string;
+  to?: string;                    // file in the same source; absent for packages, builtins, unresolved
+  specifier: string;
+  line: number;
+  kind: "import" | "export" | "require" | "dynamic";
+  typeOnly: boolean;              // import type / export type
+}
+
+interface ImportGraph {
+  files: string[];                // all JS/TS files, or with \`file\`: it and its dependencies
+  edges: ImportEdge[];            // edges leaving those files
+  packages: string[];             // packages imported from outside the source
+  cycles: string[][];             // files importing each other at runtime (type-only imports ignored)
+  importers?: string[];           // with \`file\`: files importing it directly
+  dependencies?: string[];        // with \`file\`: files it imports, directly or transitively
+}
+
+interface DiffFile {
+  file: string;                   // path in b (in a for removed files)
+  status: "added" | "removed" | "modified" | "renamed";
+  oldFile?: string;               // path in a, for renamed files
+  additions: number;
+  deletions: number;
+  binary?: boolean;
+  diff?: string;                  // unified diff; absent with stat, or when it didn't fit
+}
+
+interface DiffResult {
+  files: DiffFile[];
+  additions: number;
+  deletions: number;
+  truncated: boolean;             // some diffs left out to fit the response limit
+}
+
+interface SymbolUsage {
+  name: string;                   // exported name; "z.object" for a member of an exported namespace
+  module: string;                 // imported from, e.g. "zod/v4", "requests.adapters", "serde::de"
+  definition?: { file: string; line: number };  // declaration in the source
+  uses: { file: string; line: number; text: string }[];  // project files
+}
+
+interface UsagesResult {
+  source: string;
+  modules: string[];              // names the source is imported as
+  imports: { file: string; line: number; module: string }[];
+  symbols: SymbolUsage[];         // most used first
+}
+
+interface AstGrepMatch {
+  source: string;
+  file: string;
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+  text: string;
+  metavars: Record<string, string>;  // captured $VAR values
+}
+
+// ast-grep rule (https://ast-grep.github.io/reference/rule.html); all fields must match
+interface AstGrepRule {
+  pattern?: string | { context: string; selector?: string; strictness?: string };
+  kind?: string;                  // tree-sitter node kind, e.g. "call_expression"
+  regex?: string;                 // Rust regex on the node text
+  nthChild?: number | string | { position: number | string; ofRule?: AstGrepRule; reverse?: boolean };
+  inside?: AstGrepRelation;       // has an ancestor matching
+  has?: AstGrepRelation;          // has a descendant matching
+  precedes?: AstGrepRelation;
+  follows?: AstGrepRelation;
+  all?: AstGrepRule[];
+  any?: AstGrepRule[];
+  not?: AstGrepRule;
+  matches?: string;               // name of a rule in options.utils
+}
+
+interface AstGrepRelation extends AstGrepRule {
+  stopBy?: "neighbor" | "end" | AstGrepRule;  // default "neighbor" (direct parent/child only)
+  field?: string;
+}
+
+interface AstGrepOptions {
+  sources?: string[];             // astGrep(rule, options) form; default: all sources
+  glob?: string;
+  // javascript|typescript|tsx|html|css|python|rust|go|java|ruby|c|cpp
+  // (aliases: js, ts, py, rs, golang, rb, c++); default: by file extension
+  lang?: string | string[];
+  limit?: number;                 // default 1000, across all sources
+  constraints?: Record<string, AstGrepRule>;  // metavar name -> rule, e.g. { M: { regex: "^parse" } }
+  utils?: Record<string, AstGrepRule>;
+}
+
+interface AstRewriteOptions extends Omit<AstGrepOptions, "sources" | "limit"> {
+  maxFiles?: number;              // default 20 changed files
+  maxEdits?: number;              // default 200 edits in total
+  context?: number;               // diff context lines, default 3
+}
+
+interface AstRewriteResult {
+  files: { source: string; file: string; edits: number; diff: string }[];  // unified diffs
+  totalEdits: number;
+  truncated: boolean;             // more matches beyond maxFiles/maxEdits
+}
+
+interface ReadOptions {
+  startLine?: number;             // 1-based, inclusive
+  endLine?: number;
+  lineNumbers?: boolean;          // prefix lines with "  42 | "
+}
+
+interface ReadRequest extends ReadOptions {
+  path: string;                   // file path or glob
+}
+
+interface OutlineSymbol {
+  // function|method|constructor|class|interface|struct|trait|impl|enum|type|module|property|variable|constant|macro
+  kind: string;
+  name: string;
+  signature: string;              // declaration up to its body
+  exported: boolean;              // export/pub/public/capitalized, or public member
+  doc?: string;                   // first line of the doc comment or docstring
+  line: number;
+  endLine: number;
+  children?: OutlineSymbol[];     // class members, module contents
+}
+
+interface ParsedSpec {
+  type: "npm" | "pypi" | "crates" | "repo";
+  name: string;
+  version?: string;
+  ref?: string;
+  repoUrl?: string;
+}
+
+interface FetchedSource {
+  source: Source;
+  alreadyExists: boolean;
+}
+
+interface RemoveResult {
+  success: boolean;
+  removed: string[];
+}
+
+interface SyncEntry {
+  name: string;
+  version: string;                // locked version
+  registry: "npm" | "pypi" | "crates";
+  lockfile: string;
+  direct: boolean;                // declared by the project, not a transitive dependency
+  // fetched: locked version already fetched; mismatch: only other versions fetched
+  // (the locked one is fetched beside them); fetch: not fetched; unsupported: see reason
+  status: "fetched" | "mismatch" | "fetch" | "unsupported";
+  spec?: string;                  // spec fetching the locked version
+  source?: string;                // source id, once fetched
+  fetchedVersions?: string[];     // for mismatches
+  reason?: string;                // git/URL dependency or unpinned requirement
+  error?: string;                 // fetch failed
+}
+
+interface SyncResult {
+  lockfiles: string[];
+  dependencies: SyncEntry[];
+  fetched: number;
+  failed: number;
+}
+
+interface SourceStatus {
+  source: string;                 // source id
+  type: "npm" | "pypi" | "crates" | "repo";
+  version: string;                // fetched version or ref
+  // current: a locked version (or the declared git ref); outdated: the project locks other versions;
+  // unused: not a dependency of the project; ref-mismatch: repo ref differs from the declared git dependency;
+  // local: repo fetched from a local directory or repository (path: or file://), not compared
+  status: "current" | "outdated" | "unused" | "ref-mismatch" | "local";
+  locked?: string[];              // versions the project locks
+  declared?: string[];            // refs of the declared git dependencies
+  refetched?: string;             // with refetch: version or ref fetched in place
+  error?: string;                 // refetch failed
+}
+
+interface StatusResult {
+  lockfiles: string[];
+  manifests: string[];
+  sources: SourceStatus[];
+  refetched: number;
+  failed: number;
+}
+
+// API methods throw tagged errors; check err._tag in a catch block
+type OpensrcError =
+  | { _tag: "SourceNotFoundError"; sourceName: string; suggestions: string[]; message: string }
+  | { _tag: "PathTraversalError"; path: string; message: string }
+  | { _tag: "AccessDeniedError"; path: string; reason: string; message: string }
+  | { _tag: "FileNotFoundError"; path: string; message: string }
+  | { _tag: "FileReadError"; path: string; reason: string; message: string }
+  | { _tag: "SymbolNotFoundError"; symbol: string; path: string; suggestions: string[]; message: string }
+  | { _tag: "ImportResolutionError"; specifier: string; fromFile: string; reason: string; message: string }
+  | { _tag: "InvalidPatternError"; pattern: string; reason: string; message: string }
+  | { _tag: "LanguageUnavailableError"; lang: string; reason: string; message: string }
+  | { _tag: "FetchError"; spec: string; reason: string; message: string }
+  | { _tag: "LockfileNotFoundError"; cwd: string; searched: string[]; message: string }
+  | { _tag: "BudgetExceededError"; budget: string; limit: number; used: number; message: string };
+
+interface StateEntryInfo {
+  key: string;
+  bytes: number;
+  updatedAt: string;
+}
+
+declare const sources: Source[];
+declare const cwd: string;
+// Session-scoped store that survives between execute calls (JSON values only;
+// max 100 entries, 256KB each, 4MB total). Cleared when the session ends.
+declare const state: {
+  get(key: string): unknown;
+  set(key: string, value: unknown): void;
+  has(key: string): boolean;
+  delete(key: string): boolean;
+  list(): StateEntryInfo[];
+  clear(): void;
+};
+// Output is captured and returned alongside the result (capped at 8000 chars)
+declare const console: {
+  log(...args: unknown[]): void;
+  info(...args: unknown[]): void;
+  warn(...args: unknown[]): void;
+  error(...args: unknown[]): void;
+  debug(...args: unknown[]): void;
+};
+
+// sourceName parameters take a Source id: "zod" (the default version) or "zod@3.22.0"
+declare const opensrc: {
+  // Read operations
+  list(): Source[];
+  has(name: string, version?: string): boolean;
+  get(id: string): Source | undefined;
+  files(sourceName: string, glob?: string): Promise<FileEntry[]>;
+  tree(sourceName: string, options?: { depth?: number }): Promise<TreeNode>;
+  grep(pattern: string, options: GrepOptions & { filesOnly: true }): Promise<GrepFileMatch[]>;
+  grep(pattern: string, options: GrepOptions & { count: true }): Promise<GrepCount[]>;
+  grep(pattern: string, options?: GrepOptions): Promise<GrepResult[]>;
+  astGrep(sourceName: string | string[], rule: string | AstGrepRule, options?: AstGrepOptions): Promise<AstGrepMatch[]>;
+  astGrep(rule: string | AstGrepRule, options?: AstGrepOptions): Promise<AstGrepMatch[]>;
+  // Preview a codemod as diffs (never writes). Replacement may use captured $VAR / $$$VAR.
+  // Nested matches are skipped in favor of the outermost one.
+  astRewrite(sourceName: string | string[], rule: string | AstGrepRule, replacement: string, options?: AstRewriteOptions): Promise<AstRewriteResult>;
+  outline(sourceName: string, filePath: string): Promise<OutlineSymbol[]>;
+  outlineMany(sourceName: string, glob: string, options?: { limit?: number }): Promise<{ file: string; symbols: OutlineSymbol[] }[]>;  // limit default 50 files
+  read(sourceName: string, filePath: string, options?: ReadOptions): Promise<string>;
+  // Declaration of a function/class/type/const by name; "Class.member" for members
+  readSymbol(sourceName: string, filePath: string, name: string, options?: { lineNumbers?: boolean }): Promise<string>;
+  // Entries are paths/globs, or { path, startLine, endLine, lineNumbers }
+  readMany(sourceName: string, paths: (string | ReadRequest)[]): Promise<Record<string, string>>;
+  resolve(spec: string): Promise<ParsedSpec>;
+  // Where an import in fromFile points (exports/main/types, tsconfig paths, workspaces, index files)
+  resolveImport(sourceName: string, fromFile: string, specifier: string): Promise<ImportResolution>;
+  // Public API per package.json entry point (exports/main/types), following \`export * from\` chains.
+  // package picks a workspace package in a monorepo (default: the one named like the source)
+  exports(sourceName: string, options?: { package?: string }): Promise<EntryPoint[]>;
+  // Module graph of a source's JS/TS files (import, export ... from, require, import())
+  imports(sourceName: string, options?: { file?: string }): Promise<ImportGraph>;
+  // Symbol index queries, ranked best first (exported, top-level, library code before tests).
+  // name may be "Class.member". Indexes are built on fetch, or on first use.
+  definition(name: string, options?: { sources?: string[]; limit?: number }): Promise<SymbolDefinition[]>;  // limit default 20
+  references(name: string, options?: { sources?: string[]; limit?: number }): Promise<SymbolReference[]>;  // limit default 200
+  // Fuzzy search of one source's declarations (exact > prefix > substring > subsequence)
+  symbols(sourceName: string, query: string, options?: { kinds?: string[]; limit?: number }): Promise<SymbolDefinition[]>;  // limit default 50
+  // Trigram index grep uses to skip files, and the symbol index (built on fetch)
+  indexStatus(sourceNames?: string[]): Promise<IndexStatus[]>;
+  // Files changed between two sources or versions (e.g. "zod@3.22.0" → "zod@3.23.8"), with unified diffs
+  diff(a: string, b: string, options?: {
+    glob?: string | string[];
+    stat?: boolean;               // summary only, no diffs
+    context?: number;             // default 3
+  }): Promise<DiffResult>;
+  // Which exports of a source the project (cwd) uses and where: ESM/CJS imports, Python import,
+  // Rust use. symbols narrows to these names ("z" also matches "z.object")
+  usages(sourceName: string, options?: { symbols?: string[] }): Promise<UsagesResult>;
+
+  // Mutation operations
+  // specs: packages, GitHub/GitLab/Bitbucket repos, any git URL (git+https://…, git@host:org/repo.git#ref,
+  // file:///path/to/repo) or a local directory (path:/abs/dir, relative to cwd)
+  fetch(specs: string | string[], options?: {
+    modify?: boolean;
+  }): Promise<FetchedSource[]>;
+  // Fetch the exact versions locked in the project (cwd): package-lock.json, pnpm-lock.yaml,
+  // yarn.lock, Cargo.lock, poetry.lock or requirements.txt. dryRun only reports the plan.
+  sync(options?: {
+    direct?: boolean;             // only dependencies the project declares
+    include?: string | string[];  // name globs, e.g. "@ai-sdk/*"
+    exclude?: string | string[];
+    dryRun?: boolean;
+  }): Promise<SyncResult>;
+  // Compare fetched sources with the project's lockfiles and manifests (cwd). refetch fetches
+  // outdated/ref-mismatch default versions in place at the locked version or declared ref.
+  status(options?: { refetch?: boolean }): Promise<StatusResult>;
+  remove(names: string[]): Promise<RemoveResult>;  // "zod@3.22.0" removes one version, "zod" every version
+  clean(options?: {
+    packages?: boolean;
+    repos?: boolean;
+    npm?: boolean;
+    pypi?: boolean;
+    crates?: boolean;
+  }): Promise<RemoveResult>;
+  reindex(sourceNames?: string[]): Promise<IndexStatus[]>;  // default: all sources
+};
+
+// The user's project (cwd), read-only. Paths are relative to cwd. What .gitignore ignores, .git and
+// secrets (.env*, private keys, .npmrc) are hidden from listings; reading them throws AccessDeniedError.
+// Results use the source id "project".
+declare const project: {
+  files(glob?: string): Promise<FileEntry[]>;
+  read(filePath: string, options?: ReadOptions): Promise<string>;
+  readMany(paths: (string | ReadRequest)[]): Promise<Record<string, string>>;
+  grep(pattern: string, options: Omit<GrepOptions, "sources"> & { filesOnly: true }): Promise<GrepFileMatch[]>;
+  grep(pattern: string, options: Omit<GrepOptions, "sources"> & { count: true }): Promise<GrepCount[]>;
+  grep(pattern: string, options?: Omit<GrepOptions, "sources">): Promise<GrepResult[]>;
+  astGrep(rule: string | AstGrepRule, options?: Omit<AstGrepOptions, "sources">): Promise<AstGrepMatch[]>;
+};
+`;
@@ -0,0 +1,350 @@
+import type { ErrorDiagnostic } from "./types.js";
+
+// Filename used when compiling agent code (see worker.ts)
+export const AGENT_FILENAME = "agent-code.js";
+
+// Globals available in the sandbox, for "not defined" suggestions
+const SANDBOX_GLOBALS = [
+  "opensrc",
+  "project",
+  "state",
+  "sources",
+  "cwd",
+  "console",
+  "JSON",
+  "Object",
+  "Array",
+  "Promise",
+  "Result",
+];
+
+// Globals agents commonly reach for that the sandbox blocks
+const BLOCKED_GLOBALS = new Set([
+  "require",
+  "process",
+  "fetch",
+  "setTimeout",
+  "setInterval",
+  "setImmediate",
+  "global",
+  "globalThis",
+  "Buffer",
+  "module",
+  "exports",
+  "import",
+]);
+
+// opensrc methods that return synchronously; everything else returns a Promise
+const SYNC_METHODS = new Set(["list", "has", "get"]);
+
+const MAX_CALL_CHARS = 160;
+
+/**
+ * Location within the submitted code (1-based)
+ */
+interface Location {
+  line: number;
+  column: number;
+}
+
+/**
+ * Levenshtein distance between two strings
+ */
+function editDistance(a: string, b: string): number {
+  const prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = prev[0];
+    prev[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = prev[j];
+      prev[j] = Math.min(
+        prev[j] + 1,
+        prev[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+  return prev[b.length];
+}
+
+/**
+ * Find the candidates closest to `input`, best first.
+ * Substring matches rank ahead of edit-distance matches.
+ */
+export function closestMatches(input: string, candidates: string[], limit = 3): string[] {
+  const needle = input.toLowerCase();
+  const maxDistance = Math.max(2, Math.floor(needle.length / 3));
+
+  return candidates
+    .map((candidate) => {
+      const hay = candidate.toLowerCase();
+      const contains = hay.includes(needle) || needle.includes(hay);
+      return { candidate, score: contains ? 0 : editDistance(needle, hay) };
+    })
+    .filter((c) => c.score <= maxDistance)
+    .sort((a, b) => a.score - b.score || a.candidate.length - b.candidate.length)
+    .slice(0, limit)
+    .map((c) => c.candidate);
+}
+
+/**
+ * Map a position in the wrapped script `(${code})()` back to the snippet.
+ * Only line 1 is shifted, by the opening parenthesis.
+ */
+function unwrap(line: number, column: number): Location {
+  return { line, column: line === 1 ? Math.max(column - 1, 1) : column };
+}
+
+/**
+ * Locate a runtime error from the first agent-code frame in its stack
+ */
+function locateInStack(stack: string): Location | undefined {
+  const escaped = AGENT_FILENAME.replace(/\./g, "\\.");
+  const match = stack.match(new RegExp(`${escaped}:(\\d+):(\\d+)`));
+  if (!match) return undefined;
+  return unwrap(Number(match[1]), Number(match[2]));
+}
+
+/**
+ * Locate a compile-time SyntaxError. V8 formats these as
+ * "agent-code.js:LINE\n<source line>\n    ^^^\n\nSyntaxError: ..."
+ */
+function locateSyntaxError(stack: string): Location | undefined {
+  const lines = stack.split("\n");
+  const header = lines[0]?.match(new RegExp(`^${AGENT_FILENAME.replace(/\./g, "\\.")}:(\\d+)$`));
+  if (!header) return undefined;
+  const caret = lines[2]?.indexOf("^") ?? -1;
+  return unwrap(Number(header[1]), caret >= 0 ? caret + 1 : 1);
+}
+
+/**
+ * Locate an opensrc call in the code when the error carries no agent frame
+ * (e.g. fs errors). Only used when the call appears exactly once.
+ */
+function locateCall(code: string, object: string, method: string): Location | undefined {
+  const needle = `${object}.${method}(`;
+  const first = code.indexOf(needle);
+  if (first === -1 || code.indexOf(needle, first + 1) !== -1) return undefined;
+
+  const before = code.slice(0, first).split("\n");
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+}
+
+/**
+ * Render a code frame around a location, with `context` lines on each side
+ */
+export function codeFrame(code: string, location: Location, context = 2): string {
+  const lines = code.split("\n");
+  const start = Math.max(location.line - context, 1);
+  const end = Math.min(location.line + context, lines.length);
+  const width = String(end).length;
+
+  const out: string[] = [];
+  for (let n = start; n <= end; n++) {
+    const marker = n === location.line ? ">" : " ";
+    out.push(`${marker} ${String(n).padStart(width)} | ${lines[n - 1]}`);
+    if (n === location.line) {
+      out.push(`  ${" ".repeat(width)} | ${" ".repeat(Math.max(location.column - 1, 0))}^`);
+    }
+  }
+  return out.join("\n");
+}
+
+/**
+ * An API call that raised an error
+ */
+interface TrackedCall {
+  object: string;
+  method: string;
+  description: string;
+}
+
+/**
+ * What the worker knows about a failed execution besides the error itself
+ */
+interface DiagnoseContext {
+  sourceNames: string[];
+  apiMethods: string[];
+  call?: TrackedCall;
+  /** Tag and fields when the error is a tagged API error */
+  tag?: string;
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Suggest a fix for common mistakes
+ */
+function suggest(
+  kind: string,
+  message: string,
+  code: string,
+  context: DiagnoseContext
+): string | undefined {
+  if (context.tag === "SourceNotFoundError") {
+    if (context.sourceNames.length === 0) {
+      return "No sources are fetched yet. Call opensrc.fetch(spec) first and use the returned source.id.";
+    }
+    const close = (context.data?.suggestions as string[] | undefined) ?? [];
+    return close.length > 0
+      ? `Did you mean ${close.map((n) => `"${n}"`).join(" or ")}?`
+      : "Use opensrc.list() to see fetched source ids (GitHub repos are named \"github.com/owner/repo\").";
+  }
+
+  if (context.tag === "SymbolNotFoundError") {
+    const close = (context.data?.suggestions as string[] | undefined) ?? [];
+    return close.length > 0
+      ? `Did you mean ${close.map((n) => `"${n}"`).join(" or ")}?`
+      : `Use opensrc.outline(source, "${String(context.data?.path)}") to list the file's symbols.`;
+  }
+
+  if (context.tag === "ImportResolutionError") {
+    return "Check that fromFile is the importing file's path within the source; use opensrc.files(source, glob) to find the target.";
+  }
+
+  if (context.tag === "AccessDeniedError") {
+    return "Gitignored and secrets files (.env*, private keys, credentials) of the project are hidden from the sandbox; read files the project commits instead.";
+  }
+
+  if (context.tag === "LockfileNotFoundError") {
+    return "sync and status read the lockfiles and manifests in the project directory (cwd). Fetch dependencies by spec with opensrc.fetch instead.";
+  }
+
+  if (context.tag === "BudgetExceededError") {
+    const budget = String(context.data?.budget);
+    return `Narrow the query (sources, include/glob, maxResults) or pass a larger budget.${budget} to execute.`;
+  }
+
+  // Blocked globals are either undefined (ReferenceError) or set to undefined (TypeError)
+  const missing = message.match(/^(\w+) is not (?:defined|a function)/)?.[1];
+  if (missing && BLOCKED_GLOBALS.has(missing)) {
+    return `\`${missing}\` is not available in the sandbox. Available globals: ${SANDBOX_GLOBALS.join(", ")}.`;
+  }
+
+  if (kind === "ReferenceError" && missing) {
+    const close = closestMatches(missing, SANDBOX_GLOBALS, 1);
+    if (close.length > 0) return `Did you mean \`${close[0]}\`?`;
+  }
+
+  if (kind === "TypeError") {
+    const method = message.match(/opensrc\.(\w+) is not a function/)?.[1];
+    if (method) {
+      const { apiMethods } = context;
+      const close = closestMatches(method, apiMethods);
+      return close.length > 0
+        ? `Did you mean ${close.map((m) => `opensrc.${m}`).join(" or ")}?`
+        : `Available methods: ${apiMethods.map((m) => `opensrc.${m}`).join(", ")}.`;
+    }
+
+    // A Promise stored without await is the usual cause of TypeErrors
+    const assignment = /(?:const|let|var)\s+([^=;]+?)\s*=\s*opensrc\.(\w+)\(/g;
+    for (const match of code.matchAll(assignment)) {
+      if (SYNC_METHODS.has(match[2])) continue;
+      return `\`${match[1].trim()}\` holds a Promise. Add \`await\` before opensrc.${match[2]}(...).`;
+    }
+  }
+
+  if (kind === "SyntaxError" && !/^\s*(async\b|\(|function\b)/.test(code)) {
+    return "Code must be a single function expression, e.g. `async () => { ... }`.";
+  }
+
+  return undefined;
+}
+
+/**
+ * Describe an API call for error output, e.g. `opensrc.read("zod", "src/index.ts")`
+ */
+export function describeCall(method: string, args: unknown[], object = "opensrc"): string {
+  const rendered = args
+    .map((arg) => {
+      try {
+        return JSON.stringify(arg) ?? String(arg);
+      } catch {
+        return String(arg);
+      }
+    })
+    .join(", ");
+  const call = `${object}.${method}(${rendered})`;
+  return call.length > MAX_CALL_CHARS ? `${call.slice(0, MAX_CALL_CHARS - 4)}...)` : call;
+}
+
+/**
+ * Wrap API methods so errors remember which call raised them.
+ * `object` is the sandbox global the API is exposed as.
+ */
+export function trackCalls<T extends object>(
+  api: T,
+  object = "opensrc"
+): { api: T; callFor: (err: unknown) => TrackedCall | undefined } {
+  const calls = new WeakMap<object, TrackedCall>();
+
+  const record = (err: unknown, method: string, args: unknown[]) => {
+    if (err && typeof err === "object" && !calls.has(err)) {
+      calls.set(err, { object, method, description: describeCall(method, args, object) });
+    }
+  };
+
+  const wrapped = Object.fromEntries(
+    Object.entries(api).map(([method, fn]) => {
+      if (typeof fn !== "function") return [method, fn];
+      return [
+        method,
+        (...args: unknown[]) => {
+          try {
+            const result = fn(...args);
+            if (result instanceof Promise) {
+              return result.catch((err: unknown) => {
+                record(err, method, args);
+                throw err;
+              });
+            }
+            return result;
+          } catch (err) {
+            record(err, method, args);
+            throw err;
+          }
+        },
+      ];
+    })
+  ) as T;
+
+  return {
+    api: wrapped,
+    callFor: (err) => (err && typeof err === "object" ? calls.get(err) : undefined),
+  };
+}
+
+/**
+ * Build a diagnostic for an error thrown while compiling or running agent code
+ */
+export function diagnoseError(
+  cause: unknown,
+  code: string,
+  context: DiagnoseContext
+): ErrorDiagnostic {
+  const err = (cause && typeof cause === "object" ? cause : {}) as {
+    name?: unknown;
+    message?: unknown;
+    stack?: unknown;
+  };
+  const kind = typeof err.name === "string" ? err.name : "Error";
+  const message = typeof err.message === "string" ? err.message : String(cause);
+  const stack = typeof err.stack === "string" ? err.stack : "";
+
+  // For API errors the call site is more precise than the awaiting frame
+  const location =
+    (kind === "SyntaxError" ? locateSyntaxError(stack) : undefined) ??
+    (context.call ? locateCall(code, context.call.object, context.call.method) : undefined) ??
+    locateInStack(stack);
+
+  const suggestion = suggest(kind, message, code, context);
+
+  return {
+    kind,
+    message,
+    ...(location ? { line: location.line, column: location.column, frame: codeFrame(code, location) } : {}),
+    ...(context.call ? { call: context.call.description } : {}),
+    ...(suggestion ? { suggestion } : {}),
+    ...(context.tag ? { tag: context.tag, data: context.data ?? {} } : {}),
+  };
+}
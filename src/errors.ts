@@ -1,4 +1,5 @@
 import { TaggedError } from "better-result";
+import type { ErrorDiagnostic, ExecutionBudget, TypeDiagnostic } from "./types.js";
 
 // ── File System Errors ───────────────────────────────────────────────────────
 
@@ -14,6 +15,16 @@ export class PathTraversalError extends TaggedError("PathTraversalError")<{
   }
 }
 
+export class AccessDeniedError extends TaggedError("AccessDeniedError")<{
+  path: string;
+  reason: string;
+  message: string;
+}>() {
+  constructor(path: string, reason: string) {
+    super({ path, reason, message: `Access denied: ${path} (${reason})` });
+  }
+}
+
 export class FileNotFoundError extends TaggedError("FileNotFoundError")<{
   path: string;
   message: string;
@@ -25,26 +36,95 @@ export class FileNotFoundError extends TaggedError("FileNotFoundError")<{
 
 export class FileReadError extends TaggedError("FileReadError")<{
   path: string;
+  reason: string;
   cause: unknown;
   message: string;
 }>() {
   constructor(path: string, cause: unknown) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
     super({
       path,
+      reason,
       cause,
-      message: `Failed to read file: ${path}`,
+      message: `Failed to read file: ${path} (${reason})`,
     });
   }
 }
 
+export class SymbolNotFoundError extends TaggedError("SymbolNotFoundError")<{
+  symbol: string;
+  path: string;
+  suggestions: string[];
+  message: string;
+}>() {
+  constructor(symbol: string, path: string, suggestions: string[] = []) {
+    const hint =
+      suggestions.length > 0
+        ? ` (did you mean ${suggestions.map((s) => `"${s}"`).join(" or ")}?)`
+        : "";
+    super({ symbol, path, suggestions, message: `Symbol not found: ${symbol} in ${path}${hint}` });
+  }
+}
+
 // ── Source Management Errors ─────────────────────────────────────────────────
 
+export class ImportResolutionError extends TaggedError("ImportResolutionError")<{
+  specifier: string;
+  fromFile: string;
+  reason: string;
+  message: string;
+}>() {
+  constructor(specifier: string, fromFile: string, reason: string) {
+    super({
+      specifier,
+      fromFile,
+      reason,
+      message: `Cannot resolve import ${JSON.stringify(specifier)} from ${fromFile}: ${reason}`,
+    });
+  }
+}
+
 export class SourceNotFoundError extends TaggedError("SourceNotFoundError")<{
-  name: string;
+  sourceName: string;
+  suggestions: string[];
   message: string;
 }>() {
-  constructor(name: string) {
-    super({ name, message: `Source not found: ${name}` });
+  constructor(sourceName: string, suggestions: string[] = []) {
+    const hint =
+      suggestions.length > 0
+        ? ` (did you mean ${suggestions.map((s) => `"${s}"`).join(" or ")}?)`
+        : "";
+    super({ sourceName, suggestions, message: `Source not found: ${sourceName}${hint}` });
+  }
+}
+
+// ── Search Errors ────────────────────────────────────────────────────────────
+
+export class InvalidPatternError extends TaggedError("InvalidPatternError")<{
+  pattern: string;
+  reason: string;
+  message: string;
+}>() {
+  constructor(pattern: string, reason: string) {
+    super({
+      pattern,
+      reason,
+      message: `Invalid pattern ${JSON.stringify(pattern)}: ${reason}`,
+    });
+  }
+}
+
+export class LanguageUnavailableError extends TaggedError("LanguageUnavailableError")<{
+  lang: string;
+  reason: string;
+  message: string;
+}>() {
+  constructor(lang: string, reason: string) {
+    super({
+      lang,
+      reason,
+      message: `Language not available: ${lang} (${reason})`,
+    });
   }
 }
 
@@ -62,13 +142,73 @@ export class ExecutionTimeoutError extends TaggedError("ExecutionTimeoutError")<
   }
 }
 
+export class ExecutionMemoryError extends TaggedError("ExecutionMemoryError")<{
+  limitMb: number;
+  message: string;
+}>() {
+  constructor(limitMb: number) {
+    super({
+      limitMb,
+      message: `Execution ran out of memory (heap limit ${limitMb}MB)`,
+    });
+  }
+}
+
 export class CodeExecutionError extends TaggedError("CodeExecutionError")<{
   cause: unknown;
   message: string;
+  diagnostic?: ErrorDiagnostic;
 }>() {
-  constructor(cause: unknown) {
+  constructor(cause: unknown, diagnostic?: ErrorDiagnostic) {
     const msg = cause instanceof Error ? cause.message : String(cause);
-    super({ cause, message: msg });
+    super({ cause, message: msg, ...(diagnostic ? { diagnostic } : {}) });
+  }
+}
+
+export class TypeCheckError extends TaggedError("TypeCheckError")<{
+  diagnostics: TypeDiagnostic[];
+  message: string;
+}>() {
+  constructor(diagnostics: TypeDiagnostic[]) {
+    const lines = diagnostics.map(
+      (d) => `  ${d.line}:${d.column} TS${d.code}: ${d.message}`
+    );
+    super({
+      diagnostics,
+      message: `Type check failed:\n${lines.join("\n")}`,
+    });
+  }
+}
+
+export class BudgetExceededError extends TaggedError("BudgetExceededError")<{
+  budget: keyof ExecutionBudget;
+  limit: number;
+  used: number;
+  message: string;
+}>() {
+  constructor(budget: keyof ExecutionBudget, limit: number, used: number) {
+    super({
+      budget,
+      limit,
+      used,
+      message: `Execution budget exceeded: ${budget} (limit ${limit}, needed ${used})`,
+    });
+  }
+}
+
+// ── Session State Errors ─────────────────────────────────────────────────────
+
+export class StateLimitError extends TaggedError("StateLimitError")<{
+  key: string;
+  reason: string;
+  message: string;
+}>() {
+  constructor(key: string, reason: string) {
+    super({
+      key,
+      reason,
+      message: `State limit exceeded for "${key}": ${reason}`,
+    });
   }
 }
 
@@ -76,20 +216,53 @@ export class CodeExecutionError extends TaggedError("CodeExecutionError")<{
 
 export class FetchError extends TaggedError("FetchError")<{
   spec: string;
+  reason: string;
   cause: unknown;
   message: string;
 }>() {
   constructor(spec: string, cause: unknown) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
     super({
       spec,
+      reason,
       cause,
-      message: `Failed to fetch: ${spec}`,
+      message: `Failed to fetch: ${spec} (${reason})`,
+    });
+  }
+}
+
+export class LockfileNotFoundError extends TaggedError("LockfileNotFoundError")<{
+  cwd: string;
+  searched: string[];
+  message: string;
+}>() {
+  constructor(cwd: string, searched: string[]) {
+    super({
+      cwd,
+      searched,
+      message: `No lockfile found in ${cwd} (looked for ${searched.join(", ")})`,
     });
   }
 }
 
 // ── Type Aliases for Error Unions ────────────────────────────────────────────
 
-export type FileSystemError = PathTraversalError | FileNotFoundError | FileReadError;
-export type SourceError = SourceNotFoundError | FileSystemError;
-export type ExecutorError = CodeExecutionError | ExecutionTimeoutError;
+export type FileSystemError =
+  | PathTraversalError
+  | AccessDeniedError
+  | FileNotFoundError
+  | FileReadError
+  | SymbolNotFoundError;
+export type SourceError = SourceNotFoundError | ImportResolutionError | FileSystemError;
+export type ApiError =
+  | SourceError
+  | InvalidPatternError
+  | LanguageUnavailableError
+  | FetchError
+  | LockfileNotFoundError
+  | BudgetExceededError;
+export type ExecutorError =
+  | CodeExecutionError
+  | ExecutionTimeoutError
+  | ExecutionMemoryError
+  | TypeCheckError;
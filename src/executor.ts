@@ -1,8 +1,26 @@
-import { createContext, runInContext, Script, type Context } from "node:vm";
+import { Worker } from "node:worker_threads";
 import { Result } from "better-result";
-import type { Source } from "./types.js";
-import type { OpensrcAPI } from "./api/opensrc.js";
-import { CodeExecutionError, ExecutionTimeoutError, type ExecutorError } from "./errors.js";
+import type {
+  ConsoleEntry,
+  ExecutionBudget,
+  Source,
+  TypeDiagnostic,
+  UsageReport,
+} from "./types.js";
+import type { SerializedError, WorkerData, WorkerMessage } from "./worker.js";
+import type { SessionStore } from "./state.js";
+import { readSources } from "./sources.js";
+import { DEFAULT_BUDGET } from "./budget.js";
+import {
+  CodeExecutionError,
+  ExecutionMemoryError,
+  ExecutionTimeoutError,
+  TypeCheckError,
+  type ExecutorError,
+} from "./errors.js";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("executor");
 
 /**
  * Executor result type
@@ -10,133 +28,156 @@ import { CodeExecutionError, ExecutionTimeoutError, type ExecutorError } from ".
 export type ExecutorResult = Result<unknown, ExecutorError>;
 
 /**
- * Deep freeze an object to prevent modification
+ * Everything an execution produced: the result plus captured console output
+ * and resource usage (absent if the worker died before its first report)
  */
-function deepFreeze<T>(obj: T): T {
-  if (obj === null || typeof obj !== "object") return obj;
-
-  Object.getOwnPropertyNames(obj).forEach((prop) => {
-    const value = (obj as Record<string, unknown>)[prop];
-    if (value && typeof value === "object") {
-      deepFreeze(value);
-    }
-  });
-
-  return Object.freeze(obj);
+export interface ExecutionOutput {
+  result: ExecutorResult;
+  logs: ConsoleEntry[];
+  usage?: UsageReport;
 }
 
-/**
- * Code to freeze built-in prototypes in the VM context.
- * Prevents prototype pollution attacks from persisting across requests.
- */
-const PROTOTYPE_FREEZE_CODE = `
-  Object.freeze(Object.prototype);
-  Object.freeze(Array.prototype);
-  Object.freeze(String.prototype);
-  Object.freeze(Number.prototype);
-  Object.freeze(Boolean.prototype);
-  Object.freeze(Function.prototype);
-`;
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_MAX_HEAP_MB = 256;
+
+// Bundled next to index.mjs (see the build script in package.json)
+const WORKER_URL = new URL("./worker.mjs", import.meta.url);
 
 interface ExecutorOptions {
   /** Current working directory (project the user is in) */
   cwd: string;
   getSources: () => Source[];
-  api: OpensrcAPI;
+  updateSources: (sources: Source[]) => void;
+  /** Session-scoped state shared by all executions */
+  store: SessionStore;
+  /** Hard deadline for one execution, sync and async work included */
+  timeoutMs?: number;
+  /** Old-generation heap limit for the execution worker */
+  maxHeapMb?: number;
+}
+
+/**
+ * Per-execution options
+ */
+export interface ExecuteOptions {
+  /** Type-check the code against the declared API before running it */
+  typecheck?: boolean;
+  /** Overrides for the default resource budget */
+  budget?: Partial<ExecutionBudget>;
+}
+
+/**
+ * Rebuild an Error from its serialized form
+ */
+function deserializeError(error: SerializedError): Error {
+  return Object.assign(new Error(error.message), error);
 }
 
 /**
- * Create a sandboxed code executor
+ * Create a sandboxed code executor.
+ * Each execution runs in its own worker thread with a heap limit, and the
+ * worker is terminated on completion, timeout or out-of-memory.
  */
 export function createExecutor(options: ExecutorOptions) {
-  const { getSources, cwd, api } = options;
-
-  return async (code: string): Promise<ExecutorResult> => {
-    // Build frozen context with injected API
-    const frozenContext = deepFreeze({
-      opensrc: api,
-      sources: getSources(),
-      cwd,
+  const {
+    cwd,
+    getSources,
+    updateSources,
+    store,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    maxHeapMb = DEFAULT_MAX_HEAP_MB,
+  } = options;
+
+  // A killed worker may have changed sources on disk after its last sync
+  const resyncSources = () => {
+    readSources().then(updateSources, (err) => {
+      log.error("resync sources failed", err instanceof Error ? err : new Error(String(err)));
     });
+  };
 
-    // Create isolated context with minimal safe globals
-    const context: Context = createContext({
-      ...frozenContext,
-      // Minimal safe globals
-      console: Object.freeze({
-        log: () => {},
-        warn: () => {},
-        error: () => {},
-      }),
-      JSON: Object.freeze({ parse: JSON.parse, stringify: JSON.stringify }),
-      Object: Object.freeze({
-        keys: Object.keys,
-        values: Object.values,
-        entries: Object.entries,
-        fromEntries: Object.fromEntries,
-        freeze: Object.freeze,
-      }),
-      Array: Object.freeze({ isArray: Array.isArray }),
-      Promise: Promise,
-      // Expose Result for agent code to work with Result values
-      Result: Object.freeze({
-        ok: Result.ok,
-        err: Result.err,
-        isOk: Result.isOk,
-        isError: Result.isError,
-      }),
-      // Block dangerous globals
-      setTimeout: undefined,
-      setInterval: undefined,
-      setImmediate: undefined,
-      fetch: undefined,
-      require: undefined,
-      process: undefined,
-      global: undefined,
-      globalThis: undefined,
-    });
+  return (code: string, executeOptions: ExecuteOptions = {}): Promise<ExecutionOutput> =>
+    new Promise((resolveOutput) => {
+      const data: WorkerData = {
+        code,
+        cwd,
+        sources: getSources(),
+        state: store.snapshot(),
+        timeoutMs,
+        typecheck: executeOptions.typecheck ?? false,
+        budget: { ...DEFAULT_BUDGET, ...executeOptions.budget },
+      };
+      const worker = new Worker(WORKER_URL, {
+        workerData: data,
+        resourceLimits: { maxOldGenerationSizeMb: maxHeapMb },
+      });
+
+      const logs: ConsoleEntry[] = [];
+      let usage: UsageReport | undefined;
+      let settled = false;
+      const finish = (result: ExecutorResult) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timeoutId);
+        void worker.terminate();
+        resolveOutput({ result, logs, usage });
+      };
+
+      const timeoutId = setTimeout(() => {
+        log.warn("execution timeout, terminating worker", { timeoutMs });
+        finish(Result.err(new ExecutionTimeoutError(timeoutMs)));
+        resyncSources();
+      }, timeoutMs);
+
+      worker.on("message", (message: WorkerMessage) => {
+        if (message.type === "sources") {
+          updateSources(message.sources);
+          return;
+        }
+        if (message.type === "console") {
+          logs.push(message.entry);
+          return;
+        }
+        if (message.type === "state") {
+          store.apply(message.change);
+          return;
+        }
+        if (message.type === "usage") {
+          usage = message.usage;
+          return;
+        }
 
-    // Freeze built-in prototypes to prevent pollution
-    runInContext(PROTOTYPE_FREEZE_CODE, context);
-
-    let timeoutId: ReturnType<typeof setTimeout> | undefined;
-    const TIMEOUT_MS = 30000;
-
-    const executeResult = await Result.tryPromise({
-      try: async () => {
-        // Compile script
-        const script = new Script(`(${code})()`, {
-          filename: "agent-code.js",
-        });
-
-        // Execute and await result
-        const resultPromise = script.runInContext(context, {
-          timeout: TIMEOUT_MS,
-          breakOnSigint: true,
-        });
-
-        // Handle async results with timeout
-        const timeoutPromise = new Promise<never>((_, reject) => {
-          timeoutId = setTimeout(
-            () => reject(new ExecutionTimeoutError(TIMEOUT_MS)),
-            TIMEOUT_MS
+        if (message.ok) {
+          finish(Result.ok(message.value));
+        } else if (message.error.tag === "TypeCheckError") {
+          const diagnostics = message.error.data?.diagnostics as TypeDiagnostic[];
+          finish(Result.err(new TypeCheckError(diagnostics)));
+        } else if (message.error.code === "ERR_SCRIPT_EXECUTION_TIMEOUT") {
+          finish(Result.err(new ExecutionTimeoutError(timeoutMs)));
+        } else {
+          finish(
+            Result.err(
+              new CodeExecutionError(deserializeError(message.error), message.error.diagnostic)
+            )
           );
-        });
-
-        return await Promise.race([resultPromise, timeoutPromise]);
-      },
-      catch: (cause) => {
-        if (cause instanceof ExecutionTimeoutError) {
-          return cause;
         }
-        return new CodeExecutionError(cause);
-      },
+      });
+
+      worker.on("error", (err: Error & { code?: string }) => {
+        if (err.code === "ERR_WORKER_OUT_OF_MEMORY") {
+          log.warn("execution out of memory", { maxHeapMb });
+          finish(Result.err(new ExecutionMemoryError(maxHeapMb)));
+          resyncSources();
+          return;
+        }
+        finish(Result.err(new CodeExecutionError(err)));
+      });
+
+      worker.on("exit", (exitCode) => {
+        finish(
+          Result.err(
+            new CodeExecutionError(new Error(`Execution worker exited unexpectedly (code ${exitCode})`))
+          )
+        );
+      });
     });
-
-    if (timeoutId !== undefined) {
-      clearTimeout(timeoutId);
-    }
-
-    return executeResult;
-  };
 }
@@ -1,109 +1,13 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import type { Source } from "./types.js";
+import type { ConsoleEntry, Source, UsageReport } from "./types.js";
 import { createExecutor } from "./executor.js";
-import { createOpensrcAPI } from "./api/opensrc.js";
+import { createSessionStore } from "./state.js";
 import { truncate } from "./truncate.js";
+import { TYPES } from "./declarations.js";
+import { CodeExecutionError, type ExecutorError } from "./errors.js";
 import pkg from "../package.json" with { type: "json" };
 
-/**
- * Type declarations exposed to agent in tool description
- */
-const TYPES = `
-interface Source {
-  type: "npm" | "pypi" | "crates" | "repo";
-  name: string;
-  version?: string;
-  ref?: string;
-  path: string;
-  fetchedAt: string;
-  repository: string;
-}
-
-interface FileEntry {
-  path: string;
-  size: number;
-  isDirectory: boolean;
-}
-
-interface TreeNode {
-  name: string;
-  type: "file" | "dir";
-  children?: TreeNode[];
-}
-
-interface GrepResult {
-  source: string;
-  file: string;
-  line: number;
-  content: string;
-}
-
-interface AstGrepMatch {
-  file: string;
-  line: number;
-  column: number;
-  text: string;
-  metavars: Record<string, string>;  // captured $VAR values
-}
-
-interface ParsedSpec {
-  type: "npm" | "pypi" | "crates" | "repo";
-  name: string;
-  version?: string;
-  ref?: string;
-  repoUrl?: string;
-}
-
-interface FetchedSource {
-  source: Source;
-  alreadyExists: boolean;
-}
-
-interface RemoveResult {
-  success: boolean;
-  removed: string[];
-}
-
-declare const sources: Source[];
-declare const cwd: string;
-
-declare const opensrc: {
-  // Read operations
-  list(): Source[];
-  has(name: string, version?: string): boolean;
-  get(name: string): Source | undefined;
-  files(sourceName: string, glob?: string): Promise<FileEntry[]>;
-  tree(sourceName: string, options?: { depth?: number }): Promise<TreeNode>;
-  grep(pattern: string, options?: {
-    sources?: string[];
-    include?: string;
-    maxResults?: number;
-  }): Promise<GrepResult[]>;
-  astGrep(sourceName: string, pattern: string, options?: {
-    glob?: string;
-    lang?: string | string[];
-    limit?: number;
-  }): Promise<AstGrepMatch[]>;
-  read(sourceName: string, filePath: string): Promise<string>;
-  readMany(sourceName: string, paths: string[]): Promise<Record<string, string>>;
-  resolve(spec: string): Promise<ParsedSpec>;
-
-  // Mutation operations
-  fetch(specs: string | string[], options?: {
-    modify?: boolean;
-  }): Promise<FetchedSource[]>;
-  remove(names: string[]): Promise<RemoveResult>;
-  clean(options?: {
-    packages?: boolean;
-    repos?: boolean;
-    npm?: boolean;
-    pypi?: boolean;
-    crates?: boolean;
-  }): Promise<RemoveResult>;
-};
-`;
-
 const PACKAGE_FORMATS = `
 Fetch spec formats (input to opensrc.fetch):
 - zod               -> npm package (latest or lockfile version)
@@ -112,37 +16,46 @@ Fetch spec formats (input to opensrc.fetch):
 - crates:serde      -> Rust/crates.io package
 - vercel/ai         -> GitHub repo (default branch)
 - vercel/ai@v3.0.0  -> GitHub repo at tag/branch/commit
+- gitlab:org/repo   -> GitLab repo (bitbucket:org/repo for Bitbucket)
+- git+https://git.example.com/team/lib.git#v2 -> any git URL at a ref (also git+ssh://, git@host:org/repo.git@ref)
+- file:///srv/git/lib -> local git repository
+- path:../shared    -> local directory (relative to cwd), copied without gitignored files, secrets, node_modules or .git
 
-Source names (returned in FetchedSource.source.name, used for read/grep):
+Source ids (returned in FetchedSource.source.id, used for read/grep):
 - npm packages:  "zod", "drizzle-orm", "@tanstack/react-query"
 - pypi packages: "requests", "numpy"  
 - crates:        "serde", "tokio"
 - GitHub repos:  "github.com/vercel/ai", "github.com/anthropics/sdk"
+- Other repos:   "gitlab.com/org/repo", "git.example.com/team/lib", "local/srv/git/lib"
+
+Versions side by side: fetching another explicit version of a fetched source
+(zod@3.23.8) adds it next to the default one instead of replacing it.
+source.id is "zod" for the default version and "zod@3.23.8" for others.
 
-IMPORTANT: After fetching, always use source.name for subsequent API calls.
+IMPORTANT: After fetching, always use source.id for subsequent API calls.
 `;
 
 const EXAMPLES = `
 // List all fetched sources
 async () => {
-  return opensrc.list().map(s => ({ name: s.name, type: s.type, version: s.version || s.ref }));
+  return opensrc.list().map(s => ({ id: s.id, type: s.type, version: s.version || s.ref }));
 }
 
 // Fetch and explore structure with tree()
 async () => {
   const [{ source }] = await opensrc.fetch("zod");
-  return await opensrc.tree(source.name, { depth: 2 });
+  return await opensrc.tree(source.id, { depth: 2 });
 }
 
 // Fetch a GitHub repo and read key files
 async () => {
   const [{ source }] = await opensrc.fetch("vercel/ai");
-  const files = await opensrc.readMany(source.name, [
+  const files = await opensrc.readMany(source.id, [
     "package.json",
     "README.md",
     "src/index.ts"
   ]);
-  return { sourceName: source.name, files: Object.keys(files) };
+  return { sourceName: source.id, files: Object.keys(files) };
 }
 
 // readMany with globs
@@ -150,19 +63,27 @@ async () => {
   return await opensrc.readMany("zod", ["packages/*/package.json"]);
 }
 
+// readMany with a line range per entry
+async () => {
+  return await opensrc.readMany("zod", [
+    "package.json",
+    { path: "src/v3/types.ts", startLine: 1, endLine: 40 },
+    { path: "src/v3/helpers/*.ts", endLine: 20, lineNumbers: true }
+  ]);
+}
+
 // Fetch multiple packages
 async () => {
   const results = await opensrc.fetch(["zod", "drizzle-orm", "hono"]);
-  return results.map(r => r.source.name);
+  return results.map(r => r.source.id);
 }
 
 // Text search with grep
 async () => {
   const results = await opensrc.grep("export function parse", { sources: ["zod"], include: "*.ts" });
-  if (matches.length === 0) return "No matches";
-  const { source, file, line } = matches[0];
-  const content = await opensrc.read(source, file);
-  return content.split("\\n").slice(line - 1, line + 29).join("\\n");
+  if (results.length === 0) return "No matches";
+  const { source, file, line } = results[0];
+  return await opensrc.read(source, file, { startLine: line, endLine: line + 29, lineNumbers: true });
 }
 
 // Search across all sources
@@ -171,6 +92,76 @@ async () => {
   return results.map(r => \`\${r.source}:\${r.file}:\${r.line}\`);
 }
 
+// Grep with context lines, whole-word literal matching and excludes
+async () => {
+  return await opensrc.grep("safeParse(", {
+    sources: ["zod"], include: "*.ts", exclude: "*.test.ts",
+    fixedStrings: true, caseSensitive: true, context: 3, maxResults: 5
+  });
+}
+
+// Which files mention a symbol, and how often
+async () => {
+  return await opensrc.grep("ZodError", { wordRegexp: true, count: true });
+}
+
+// Check grep's search index; rebuild stale or missing ones
+async () => {
+  const stale = (await opensrc.indexStatus()).filter(s => !s.indexed || s.stale);
+  return stale.length ? await opensrc.reindex(stale.map(s => s.source)) : "all indexed";
+}
+
+// Where is a symbol defined, and who uses it?
+async () => {
+  const [def] = await opensrc.definition("ZodType", { sources: ["zod"] });
+  const refs = await opensrc.references("ZodType", { sources: ["zod"], limit: 50 });
+  return { def, callers: refs.filter(r => r.kind !== "import").map(r => \`\${r.file}:\${r.line}\`) };
+}
+
+// Follow an import to its file, fetching the package first if needed
+async () => {
+  let target = await opensrc.resolveImport("github.com/vercel/ai", "packages/ai/src/index.ts", "@ai-sdk/provider");
+  if (target.kind === "unfetched") {
+    await opensrc.fetch(target.fetch);
+    target = await opensrc.resolveImport("github.com/vercel/ai", "packages/ai/src/index.ts", "@ai-sdk/provider");
+  }
+  if (target.kind === "builtin") return target;
+  return await opensrc.outline(target.source, target.file);
+}
+
+// Public API of a package: exported functions per entry point
+async () => {
+  const entries = await opensrc.exports("zod");
+  return entries.map(e => ({
+    import: e.specifier,
+    functions: e.exports.filter(x => x.kind === "function").map(x => \`\${x.name}  (\${x.file}:\${x.line})\`)
+  }));
+}
+
+// Find the files that matter: an entry point's dependencies, a file's importers, cycles
+async () => {
+  const graph = await opensrc.imports("zod", { file: "src/v4/classic/schemas.ts" });
+  const fanIn = new Map();
+  for (const e of graph.edges) if (e.to) fanIn.set(e.to, (fanIn.get(e.to) ?? 0) + 1);
+  return {
+    importers: graph.importers,
+    mostImported: [...fanIn].sort((a, b) => b[1] - a[1]).slice(0, 10),
+    cycles: graph.cycles,
+    packages: graph.packages
+  };
+}
+
+// Fuzzy symbol search within a source
+async () => {
+  return (await opensrc.symbols("zod", "safeparse", { limit: 10 })).map(s => \`\${s.kind} \${s.container ?? ""}.\${s.name} \${s.file}:\${s.line}\`);
+}
+
+// TypeScript is accepted (types are stripped before running)
+async () => {
+  const matches = await opensrc.astGrep("zod", "export function $NAME($$$)");
+  return matches.map((m: AstGrepMatch) => m.metavars.NAME);
+}
+
 // AST search with astGrep (use $VAR for single node, $$$VAR for multiple)
 // Patterns: "function $NAME($$$)" | "const $X = $Y" | "useState($INIT)" | "$OBJ.$METHOD($$$)"
 async () => {
@@ -178,6 +169,48 @@ async () => {
   return matches.map(m => ({ file: m.file, name: m.metavars.NAME, line: m.line }));
 }
 
+// astGrep rule objects: calls to $X.parse(...) inside a try block, across sources
+async () => {
+  return await opensrc.astGrep({
+    pattern: "$X.parse($$$)",
+    inside: { kind: "try_statement", stopBy: "end" }
+  }, { sources: ["zod", "github.com/vercel/ai"], lang: "ts", limit: 20 });
+}
+
+// Exported functions without a JSDoc comment, with a metavariable constraint
+async () => {
+  return await opensrc.astGrep("zod", {
+    kind: "export_statement",
+    has: { kind: "function_declaration", has: { field: "name", pattern: "$NAME" } },
+    not: { follows: { kind: "comment", regex: "^/\\\\*\\\\*" } }
+  }, { constraints: { NAME: { regex: "^[a-z]" } }, lang: "ts", limit: 20 });
+}
+
+// Preview a codemod as unified diffs (nothing is written)
+async () => {
+  const { files, totalEdits, truncated } = await opensrc.astRewrite(
+    "zod", "$SCHEMA.parse($$$ARGS)", "$SCHEMA.safeParse($$$ARGS)",
+    { glob: "**/*.test.ts", maxFiles: 5 }
+  );
+  return { totalEdits, truncated, diffs: files.map(f => f.diff).join("\\n") };
+}
+
+// Outline a large file, then read only the symbols you need
+async () => {
+  const symbols = await opensrc.outline("zod", "src/v3/types.ts");
+  const cls = symbols.find(s => s.name === "ZodString");
+  return {
+    members: cls.children.map(c => c.signature),
+    email: await opensrc.readSymbol("zod", "src/v3/types.ts", "ZodString.email", { lineNumbers: true })
+  };
+}
+
+// Exported API of a package at a glance
+async () => {
+  const files = await opensrc.outlineMany("zod", "src/v3/*.ts", { limit: 20 });
+  return files.map(f => ({ file: f.file, exports: f.symbols.filter(s => s.exported).map(s => s.signature) }));
+}
+
 // Find entry points
 async () => {
   const files = await opensrc.files("github.com/vercel/ai", "**/{index,main}.{ts,js}");
@@ -192,12 +225,116 @@ async () => {
   return Object.keys(files).filter(p => !files[p].startsWith("[Error:"));
 }
 
-// Remove sources
+// Keep intermediate results between calls with state
+async () => {
+  const hits = await opensrc.grep("export function parse", { sources: ["zod"], include: "*.ts" });
+  state.set("parseHits", hits);
+  return hits.length;
+}
+// ...then in a later call
+async () => {
+  const hits = state.get("parseHits");
+  return await opensrc.readMany("zod", hits.slice(0, 3).map(h => h.file));
+}
+
+// Compare two versions side by side
+async () => {
+  const [before, after] = await opensrc.fetch(["zod@3.22.0", "zod@3.23.8"]);
+  const [a, b] = await Promise.all([
+    opensrc.outline(before.source.id, "src/types.ts"),
+    opensrc.outline(after.source.id, "src/types.ts")
+  ]);
+  const names = new Set(a.map(s => s.name));
+  return b.filter(s => !names.has(s.name)).map(s => s.signature);
+}
+
+// Upgrade review: changed files between versions, then the diffs that matter
+async () => {
+  const { files } = await opensrc.diff("zod@3.22.0", "zod@3.23.8", { glob: "src/**/*.ts", stat: true });
+  const big = files.filter(f => f.status !== "renamed" && !f.file.includes("test")).sort((x, y) => (y.additions + y.deletions) - (x.additions + x.deletions));
+  const { files: detail } = await opensrc.diff("zod@3.22.0", "zod@3.23.8", { glob: big.slice(0, 3).map(f => f.file) });
+  return { summary: files.map(f => \`\${f.status} \${f.file} +\${f.additions} -\${f.deletions}\`), diffs: detail.map(f => f.diff) };
+}
+
+// Fetch what the project's lockfile pins: check the plan, then sync a subset
+async () => {
+  const plan = await opensrc.sync({ direct: true, dryRun: true });
+  const todo = plan.dependencies.filter(d => d.status === "fetch" || d.status === "mismatch");
+  if (todo.length > 10) return todo.map(d => d.spec);
+  const { dependencies } = await opensrc.sync({ direct: true });
+  return dependencies.map(d => \`\${d.name}@\${d.version}: \${d.status}\${d.error ? " (" + d.error + ")" : ""}\`);
+}
+
+// Before reading a dependency's source: make sure it is the version the project uses
+async () => {
+  const { sources } = await opensrc.status();
+  const stale = sources.filter(s => s.status === "outdated" || s.status === "ref-mismatch");
+  if (stale.length === 0) return "all current";
+  const { sources: after } = await opensrc.status({ refetch: true });
+  return after.filter(s => s.refetched || s.error).map(s => \`\${s.source}: \${s.version} -> \${s.refetched ?? s.error}\`);
+}
+
+// How the project calls a library: find the call sites, then read the library's declaration
+async () => {
+  const calls = await project.grep(".safeParse(", { fixedStrings: true, include: "*.ts", maxResults: 20 });
+  const [def] = await opensrc.definition("ZodType.safeParse", { sources: ["zod"], limit: 1 });
+  return {
+    callers: calls.map(c => \`\${c.file}:\${c.line}\`),
+    declaration: def && await opensrc.read("zod", def.file, { startLine: def.line, endLine: def.endLine })
+  };
+}
+
+// Before an upgrade: the dependency's exports the project relies on, and what changed in them
+async () => {
+  const { symbols } = await opensrc.usages("zod");
+  const files = [...new Set(symbols.filter(s => s.definition).map(s => s.definition.file))];
+  const { files: changed } = await opensrc.diff("zod@3.22.0", "zod@3.23.8", { glob: files, stat: true });
+  return symbols
+    .filter(s => changed.some(f => f.file === s.definition?.file))
+    .map(s => \`\${s.name} (\${s.uses.length} uses) \${s.definition.file}:\${s.definition.line}\`);
+}
+
+// Remove sources ("zod@3.22.0" removes only that version)
 async () => {
   return await opensrc.remove(["zod", "github.com/vercel/ai"]);
 }
 `;
 
+/**
+ * Format captured console output as a content block
+ */
+function formatLogs(logs: ConsoleEntry[]): { type: "text"; text: string }[] {
+  if (logs.length === 0) return [];
+  const lines = logs.map((entry) => `[${entry.level}] ${entry.message}`);
+  return [{ type: "text", text: `Console output:\n${lines.join("\n")}` }];
+}
+
+/**
+ * Format resource usage as a content block
+ */
+function formatUsage(usage: UsageReport | undefined): { type: "text"; text: string }[] {
+  if (!usage) return [];
+  return [{ type: "text", text: `Usage: ${JSON.stringify(usage)}` }];
+}
+
+/**
+ * Format an execution error, with location, code frame and suggestion when known
+ */
+function formatError(error: ExecutorError): string {
+  if (!CodeExecutionError.is(error) || !error.diagnostic) {
+    return `Error: ${error.message}`;
+  }
+
+  const d = error.diagnostic;
+  const lines = [`${d.kind}: ${d.message}`];
+  if (d.line !== undefined) lines.push(`  at line ${d.line}, column ${d.column}`);
+  if (d.call) lines.push(`  in ${d.call}`);
+  if (d.frame) lines.push("", d.frame);
+  if (d.suggestion) lines.push("", `Suggestion: ${d.suggestion}`);
+  if (d.tag) lines.push("", `Error data: ${JSON.stringify({ _tag: d.tag, ...d.data })}`);
+  return lines.join("\n");
+}
+
 /**
  * Create and configure the MCP server
  * @param cwd - Current working directory (project the user is in)
@@ -212,14 +349,17 @@ export function createServer(
     version: pkg.version,
   });
 
-  // Create unified API (uses global opensrc dir)
-  const api = createOpensrcAPI(getSources, updateSources);
+  // Session state shared across execute calls; dropped when the session closes
+  const store = createSessionStore();
+  server.server.onclose = () => store.clear();
 
-  // Create executor (cwd exposed to sandbox for project context)
+  // Create executor (cwd exposed to sandbox for project context).
+  // The opensrc API is created inside each execution worker.
   const executor = createExecutor({
     cwd,
     getSources,
-    api,
+    updateSources,
+    store,
   });
 
   // Register single unified tool
@@ -235,17 +375,42 @@ ${PACKAGE_FORMATS}
 Examples:
 ${EXAMPLES}`,
     {
-      code: z.string().describe("JavaScript async arrow function to execute"),
+      code: z.string().describe("JavaScript or TypeScript async arrow function to execute"),
+      typecheck: z
+        .boolean()
+        .optional()
+        .describe("Type-check the code against the opensrc API before running it"),
+      budget: z
+        .object({
+          maxFiles: z.number().int().positive(),
+          maxBytes: z.number().int().positive(),
+          maxRegexMs: z.number().positive(),
+          maxFetches: z.number().int().nonnegative(),
+          maxOutputChars: z.number().int().positive(),
+        })
+        .partial()
+        .optional()
+        .describe(
+          "Resource limits for this execution (defaults: maxFiles 20000, maxBytes 100MB, maxRegexMs 10000, maxFetches 10, maxOutputChars 1000000)"
+        ),
     },
-    async ({ code }) => {
-      const result = await executor(code);
+    async ({ code, typecheck, budget }) => {
+      const { result, logs, usage } = await executor(code, { typecheck, budget });
 
       return result.match({
         ok: (value) => ({
-          content: [{ type: "text", text: truncate(value) }],
+          content: [
+            { type: "text", text: truncate(value) },
+            ...formatLogs(logs),
+            ...formatUsage(usage),
+          ],
         }),
         err: (error) => ({
-          content: [{ type: "text", text: `Error: ${error.message}` }],
+          content: [
+            { type: "text", text: formatError(error) },
+            ...formatLogs(logs),
+            ...formatUsage(usage),
+          ],
           isError: true,
         }),
       });
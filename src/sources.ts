@@ -1,6 +1,7 @@
-import { join } from "node:path";
-import { mkdir } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
 import { existsSync } from "node:fs";
+import fg from "fast-glob";
 import type { Source } from "./types.js";
 import { getGlobalOpensrcDir, getOpensrcCwd } from "./config.js";
 import {
@@ -8,6 +9,7 @@ import {
   removePackageSource,
   removeRepoSource,
 } from "opensrc/dist/lib/git.js";
+import { updatePackageIndex } from "opensrc/dist/lib/agents.js";
 import type { Registry } from "opensrc/dist/types.js";
 
 /**
@@ -27,20 +29,126 @@ export async function ensureOpensrcDirs(): Promise<void> {
   }
 }
 
+// opensrc keeps one checkout per package. Other versions of a fetched
+// package get their own opensrc store under versions/<type>/<name>@<version>/.
+const VERSIONS_DIR = "versions";
+
+/**
+ * Version (npm/pypi/crates) or ref (repo) of a source
+ */
+export function versionOf(source: Pick<Source, "version" | "ref">): string {
+  return source.version ?? source.ref ?? "";
+}
+
 /**
- * Read sources using opensrc's listSources and normalize to our Source type
+ * Store directory of a version fetched beside the default one, relative to
+ * the opensrc directory (e.g. "versions/npm/zod@3.22.0")
+ */
+export function getVersionStorePath(type: Source["type"], name: string, version: string): string {
+  return `${VERSIONS_DIR}/${type}/${name}@${version}`;
+}
+
+/**
+ * Version store holding a source, or undefined for the main store
+ */
+export function versionStoreOf(source: Source): string | undefined {
+  if (!source.path.startsWith(`${VERSIONS_DIR}/`)) return undefined;
+  return source.path.slice(0, source.path.indexOf("/opensrc/"));
+}
+
+/**
+ * Read sources using opensrc's listSources and normalize to our Source type.
+ * Includes sources of version stores; the default version of each name has
+ * the bare name as id, others "name@version".
  */
 export async function readSources(): Promise<Source[]> {
-  const { packages, repos } = await opensrcListSources(getOpensrcCwd());
+  const sources = await readStore(getOpensrcCwd(), "");
+
+  const opensrcDir = getOpensrcDir();
+  const stores = await fg(`${VERSIONS_DIR}/*/**/opensrc/sources.json`, {
+    cwd: opensrcDir,
+    ignore: ["**/opensrc/repos/**"],
+    onlyFiles: true,
+  });
+  for (const file of stores.sort()) {
+    const store = dirname(dirname(file));
+    sources.push(...(await readStore(join(opensrcDir, store), `${store}/opensrc/`)));
+  }
+
+  // Default: the main store's version, else the most recently fetched
+  const defaults = new Map<string, Source>();
+  for (const source of sources) {
+    const current = defaults.get(source.name);
+    if (
+      !current ||
+      (versionStoreOf(current) && (!versionStoreOf(source) || source.fetchedAt > current.fetchedAt))
+    ) {
+      defaults.set(source.name, source);
+    }
+  }
+  for (const source of sources) {
+    source.id = defaults.get(source.name) === source ? source.name : `${source.name}@${versionOf(source)}`;
+  }
+
+  return sources;
+}
+
+// Repository of each repo fetched outside opensrc (see api/remotes.ts), by
+// name. opensrc rewrites sources.json without fields it doesn't know.
+const REMOTES_FILE = "remotes.json";
+
+async function readRemotes(cwd: string): Promise<Record<string, string>> {
+  try {
+    return JSON.parse(await readFile(join(cwd, "opensrc", REMOTES_FILE), "utf8"));
+  } catch {
+    return {};
+  }
+}
+
+async function writeRemotes(cwd: string, remotes: Record<string, string>): Promise<void> {
+  await writeFile(join(cwd, "opensrc", REMOTES_FILE), JSON.stringify(remotes, null, 2), "utf8");
+}
+
+// Repository of a repo opensrc fetched: "host/owner/repo", or "owner/repo"
+// on GitHub for stores written by older versions
+const hostedRepository = (name: string) =>
+  /^[^/]+\.[^/]+\//.test(name) ? `https://${name}` : `https://github.com/${name}`;
+
+/**
+ * Record a repo fetched outside opensrc in the store at `cwd`, along with
+ * the repository it came from
+ */
+export async function addRepoSource(
+  cwd: string,
+  repo: { name: string; version: string; path: string },
+  repository: string
+): Promise<void> {
+  const { packages, repos } = await opensrcListSources(cwd);
+  await updatePackageIndex(
+    {
+      packages,
+      repos: [...repos.filter((r) => r.name !== repo.name), { ...repo, fetchedAt: new Date().toISOString() }],
+    },
+    cwd
+  );
+  await writeRemotes(cwd, { ...(await readRemotes(cwd)), [repo.name]: repository });
+}
+
+// Sources listed in the opensrc store at `cwd`, with paths made relative
+// to the main opensrc directory by `prefix`
+async function readStore(cwd: string, prefix: string): Promise<Source[]> {
+  const { packages, repos } = await opensrcListSources(cwd);
+  const remotes = await readRemotes(cwd);
   const sources: Source[] = [];
 
   // Convert opensrc package format to our Source format
   for (const pkg of packages) {
     sources.push({
+      id: pkg.name,
       type: pkg.registry,
       name: pkg.name,
       version: pkg.version,
-      path: pkg.path.replace(/^opensrc\//, ""),
+      path: prefix + pkg.path.replace(/^opensrc\//, ""),
       fetchedAt: pkg.fetchedAt,
       repository: "",
     });
@@ -49,14 +157,13 @@ export async function readSources(): Promise<Source[]> {
   // Convert opensrc repo format to our Source format
   for (const repo of repos) {
     sources.push({
+      id: repo.name,
       type: "repo",
       name: repo.name,
       ref: repo.version,
-      path: repo.path.replace(/^opensrc\//, ""),
+      path: prefix + repo.path.replace(/^opensrc\//, ""),
       fetchedAt: repo.fetchedAt,
-      repository: repo.name.startsWith("github.com")
-        ? `https://${repo.name}`
-        : `https://github.com/${repo.name}`,
+      repository: remotes[repo.name] ?? hostedRepository(repo.name),
     });
   }
 
@@ -83,8 +190,9 @@ export async function writeSources(sources: Source[]): Promise<void> {
     }
   }
 
-  // Filter to only keep sources that still exist
-  const sourceNames = new Set(sources.map((s) => s.name));
+  // Filter to only keep sources that still exist (version stores keep
+  // their own sources.json)
+  const sourceNames = new Set(sources.filter((s) => !versionStoreOf(s)).map((s) => s.name));
 
   existing.packages = (existing.packages ?? []).filter((p) => {
     const pkg = p as { name?: string };
@@ -106,31 +214,32 @@ export async function writeSources(sources: Source[]): Promise<void> {
 }
 
 /**
- * Remove sources by name using opensrc's smart removal
- * (monorepo-aware: only removes repo if no other packages use it)
+ * Remove sources using opensrc's smart removal (monorepo-aware: only
+ * removes a repo if no other packages use it). Version stores are deleted
+ * whole. Returns the ids of removed sources.
  */
-export async function removeSourcesByName(
-  names: string[],
-  currentSources: Source[]
-): Promise<string[]> {
+export async function removeSources(toRemove: Source[]): Promise<string[]> {
   const removed: string[] = [];
   const cwd = getOpensrcCwd();
 
-  for (const name of names) {
-    const source = currentSources.find((s) => s.name === name);
-    if (!source) continue;
-
-    if (source.type === "repo") {
+  for (const source of toRemove) {
+    const store = versionStoreOf(source);
+    if (store) {
+      await rm(join(getOpensrcDir(), store), { recursive: true, force: true });
+      removed.push(source.id);
+    } else if (source.type === "repo") {
       // Use opensrc's removeRepoSource
-      const success = await removeRepoSource(name, cwd);
+      const success = await removeRepoSource(source.name, cwd);
       if (success) {
-        removed.push(name);
+        const { [source.name]: _, ...remotes } = await readRemotes(cwd);
+        await writeRemotes(cwd, remotes);
+        removed.push(source.id);
       }
     } else {
       // Use opensrc's removePackageSource (monorepo-aware)
-      const result = await removePackageSource(name, cwd, source.type as Registry);
+      const result = await removePackageSource(source.name, cwd, source.type as Registry);
       if (result.removed) {
-        removed.push(name);
+        removed.push(source.id);
       }
     }
   }
@@ -165,5 +274,5 @@ export async function cleanSourcesFiltered(
     return false;
   });
 
-  return removeSourcesByName(toRemove.map((s) => s.name), currentSources);
+  return removeSources(toRemove);
 }
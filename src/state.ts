@@ -0,0 +1,151 @@
+import { StateLimitError } from "./errors.js";
+
+/**
+ * Limits for the per-session state store
+ */
+export const STATE_LIMITS = {
+  maxEntries: 100,
+  maxEntryBytes: 256 * 1024,
+  maxTotalBytes: 4 * 1024 * 1024,
+};
+
+/**
+ * A stored value (kept as JSON so it can cross worker boundaries)
+ */
+export interface StoredEntry {
+  json: string;
+  bytes: number;
+  updatedAt: string;
+}
+
+/**
+ * Entry metadata returned by state.list()
+ */
+export interface StateEntryInfo {
+  key: string;
+  bytes: number;
+  updatedAt: string;
+}
+
+/**
+ * A change made by sandboxed code, mirrored to the session store
+ */
+export type StateChange =
+  | { op: "set"; key: string; entry: StoredEntry }
+  | { op: "delete"; key: string }
+  | { op: "clear" };
+
+/**
+ * State API exposed to sandboxed code
+ */
+export interface StateAPI {
+  get(key: string): unknown;
+  set(key: string, value: unknown): void;
+  has(key: string): boolean;
+  delete(key: string): boolean;
+  list(): StateEntryInfo[];
+  clear(): void;
+}
+
+/**
+ * Session-scoped store owned by the server (main thread)
+ */
+export interface SessionStore {
+  snapshot(): Record<string, StoredEntry>;
+  apply(change: StateChange): void;
+  clear(): void;
+}
+
+function totalBytes(entries: Map<string, StoredEntry>): number {
+  let total = 0;
+  for (const entry of entries.values()) total += entry.bytes;
+  return total;
+}
+
+/**
+ * Create the session store. Lives for as long as the MCP session does.
+ */
+export function createSessionStore(): SessionStore {
+  const entries = new Map<string, StoredEntry>();
+
+  return {
+    snapshot: () => Object.fromEntries(entries),
+
+    apply: (change: StateChange) => {
+      switch (change.op) {
+        case "set":
+          entries.set(change.key, change.entry);
+          break;
+        case "delete":
+          entries.delete(change.key);
+          break;
+        case "clear":
+          entries.clear();
+          break;
+      }
+    },
+
+    clear: () => entries.clear(),
+  };
+}
+
+/**
+ * Create the sandbox-facing state API over a snapshot of the session store.
+ * Limits are enforced here; every change is reported through onChange.
+ */
+export function createStateAPI(
+  snapshot: Record<string, StoredEntry>,
+  onChange: (change: StateChange) => void
+): StateAPI {
+  const entries = new Map(Object.entries(snapshot));
+
+  return {
+    get: (key: string): unknown => {
+      const entry = entries.get(key);
+      return entry ? JSON.parse(entry.json) : undefined;
+    },
+
+    set: (key: string, value: unknown): void => {
+      const json = JSON.stringify(value);
+      if (json === undefined) {
+        throw new Error(`State value for "${key}" must be JSON-serializable`);
+      }
+
+      const bytes = Buffer.byteLength(json, "utf8");
+      if (bytes > STATE_LIMITS.maxEntryBytes) {
+        throw new StateLimitError(key, `entry size ${bytes} exceeds ${STATE_LIMITS.maxEntryBytes} bytes`);
+      }
+      if (!entries.has(key) && entries.size >= STATE_LIMITS.maxEntries) {
+        throw new StateLimitError(key, `entry count exceeds ${STATE_LIMITS.maxEntries}`);
+      }
+      const newTotal = totalBytes(entries) - (entries.get(key)?.bytes ?? 0) + bytes;
+      if (newTotal > STATE_LIMITS.maxTotalBytes) {
+        throw new StateLimitError(key, `total size ${newTotal} exceeds ${STATE_LIMITS.maxTotalBytes} bytes`);
+      }
+
+      const entry: StoredEntry = { json, bytes, updatedAt: new Date().toISOString() };
+      entries.set(key, entry);
+      onChange({ op: "set", key, entry });
+    },
+
+    has: (key: string): boolean => entries.has(key),
+
+    delete: (key: string): boolean => {
+      const existed = entries.delete(key);
+      if (existed) onChange({ op: "delete", key });
+      return existed;
+    },
+
+    list: (): StateEntryInfo[] =>
+      [...entries].map(([key, entry]) => ({
+        key,
+        bytes: entry.bytes,
+        updatedAt: entry.updatedAt,
+      })),
+
+    clear: (): void => {
+      entries.clear();
+      onChange({ op: "clear" });
+    },
+  };
+}
@@ -1,6 +1,11 @@
 const MAX_TOKENS = 8000;
 const CHARS_PER_TOKEN = 4;
 
+/**
+ * Longest response passed through without truncation
+ */
+export const MAX_RESPONSE_CHARS = MAX_TOKENS * CHARS_PER_TOKEN;
+
 /**
  * Truncate content to stay within token limits.
  * Includes guidance message when truncated.
@@ -9,7 +14,7 @@ export function truncate(content: unknown): string {
   const text =
     typeof content === "string" ? content : JSON.stringify(content, null, 2);
 
-  const maxChars = MAX_TOKENS * CHARS_PER_TOKEN;
+  const maxChars = MAX_RESPONSE_CHARS;
   if (text.length <= maxChars) return text;
 
   const estimatedTokens = Math.ceil(text.length / CHARS_PER_TOKEN);
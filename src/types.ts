@@ -2,13 +2,15 @@
  * Represents a fetched source (package or repo)
  */
 export interface Source {
+  /** Identifier for API calls: name for the default version, else "name@version" */
+  id: string;
   type: "npm" | "pypi" | "crates" | "repo";
   name: string;
   version?: string;
   ref?: string;
   path: string; // relative path in opensrc/repos/
   fetchedAt: string; // ISO timestamp
-  repository: string; // full repo URL
+  repository: string; // full repo URL, or the directory of a path: source
 }
 
 /**
@@ -20,6 +22,60 @@ export interface FileEntry {
   isDirectory: boolean;
 }
 
+/**
+ * Line range options for read/readMany/readSymbol (1-based, inclusive)
+ */
+export interface ReadOptions {
+  startLine?: number;
+  endLine?: number;
+  /** Prefix each line with its line number ("  42 | ...") */
+  lineNumbers?: boolean;
+}
+
+/**
+ * readMany entry with its own line range
+ */
+export interface ReadRequest extends ReadOptions {
+  /** File path or glob */
+  path: string;
+}
+
+/**
+ * Grep search options (modeled on ripgrep flags)
+ */
+export interface GrepOptions {
+  sources?: string[];
+  /** Glob(s) of files to search; patterns without "/" match basenames */
+  include?: string;
+  /** Glob(s) of files to skip */
+  exclude?: string | string[];
+  maxResults?: number;
+  /** Match case exactly (default: case-insensitive) */
+  caseSensitive?: boolean;
+  /** Treat the pattern as a literal string */
+  fixedStrings?: boolean;
+  /** Only match whole words */
+  wordRegexp?: boolean;
+  /** Let the pattern span lines (use [\s\S] or (?s)-style classes to cross newlines) */
+  multiline?: boolean;
+  /** Context lines before/after each match; `context` sets both */
+  before?: number;
+  after?: number;
+  context?: number;
+  /** Return only the files that match */
+  filesOnly?: boolean;
+  /** Return the number of matching lines per file */
+  count?: boolean;
+}
+
+/**
+ * Column range of a match (1-based, end exclusive)
+ */
+export interface MatchRange {
+  start: number;
+  end: number;
+}
+
 /**
  * Grep search result
  */
@@ -27,7 +83,138 @@ export interface GrepResult {
   source: string;
   file: string;
   line: number;
+  /** Matching line (lines, for multiline matches) as written, cut to 200 chars */
   content: string;
+  /** Match ranges within the line; a multiline match ends on endLine */
+  matches: MatchRange[];
+  /** Last line of a multiline match */
+  endLine?: number;
+  before?: string[];
+  after?: string[];
+}
+
+/**
+ * Grep result in filesOnly mode
+ */
+export interface GrepFileMatch {
+  source: string;
+  file: string;
+}
+
+/**
+ * Grep result in count mode
+ */
+export interface GrepCount {
+  source: string;
+  file: string;
+  count: number;
+}
+
+/**
+ * Trigram search index status for a source
+ */
+export interface IndexStatus {
+  source: string;
+  indexed: boolean;
+  builtAt?: string;
+  /** Files covered by the index */
+  files?: number;
+  /** Files left out (too large); grep always scans these */
+  skippedFiles?: number;
+  /** Index size on disk */
+  bytes?: number;
+  /** Source was fetched after the index was built */
+  stale?: boolean;
+  /** Symbol index (definition/references/symbols), when built */
+  symbols?: SymbolIndexStatus;
+}
+
+/**
+ * Symbol index status for a source
+ */
+export interface SymbolIndexStatus {
+  builtAt: string;
+  files: number;
+  definitions: number;
+  references: number;
+  bytes: number;
+  stale: boolean;
+}
+
+/**
+ * Where an import specifier points
+ */
+export interface ImportResolution {
+  specifier: string;
+  /**
+   * relative: a path in the same source; paths: tsconfig paths/baseUrl;
+   * workspace: a package in the same source (monorepo); package: another
+   * fetched source; builtin: a Node built-in; unfetched: fetch it first
+   */
+  kind: "relative" | "paths" | "workspace" | "package" | "builtin" | "unfetched";
+  source?: string;
+  file?: string;
+  /** Spec to pass to fetch when the package isn't fetched */
+  fetch?: string;
+}
+
+/**
+ * Name exported by a package entry point
+ */
+export interface ExportedSymbol {
+  /** Exported name; "default" for the default export, "*" for `export *` of an unfollowed module */
+  name: string;
+  kind?: OutlineSymbolKind;
+  signature?: string;
+  doc?: string;
+  /** Defining file and line, or the re-exporting statement when `from` is set */
+  file: string;
+  line: number;
+  /** Module the name is re-exported from when its declaration couldn't be followed (another package) */
+  from?: string;
+}
+
+/**
+ * Entry point of a package (a package.json `exports` subpath, or main/types)
+ */
+export interface EntryPoint {
+  /** Import specifier, e.g. "zod/v4" */
+  specifier: string;
+  /** package.json subpath, e.g. "./v4" */
+  subpath: string;
+  file: string;
+  exports: ExportedSymbol[];
+}
+
+/**
+ * Import, re-export or require of one module by a file
+ */
+export interface ImportEdge {
+  from: string;
+  /** Imported file in the same source; absent for other packages, builtins and unresolved specifiers */
+  to?: string;
+  specifier: string;
+  line: number;
+  kind: "import" | "export" | "require" | "dynamic";
+  /** `import type` / `export type` (erased at runtime) */
+  typeOnly: boolean;
+}
+
+/**
+ * Module import graph of a source
+ */
+export interface ImportGraph {
+  /** Files in the graph: every JS/TS file, or with `file` the file and its dependencies */
+  files: string[];
+  edges: ImportEdge[];
+  /** Packages imported from outside the source */
+  packages: string[];
+  /** Groups of files that import each other at runtime (type-only imports ignored) */
+  cycles: string[][];
+  /** With `file`: files importing it directly */
+  importers?: string[];
+  /** With `file`: files it depends on, directly or transitively */
+  dependencies?: string[];
 }
 
 /**
@@ -57,10 +244,96 @@ export interface RemoveResult {
   removed: string[];
 }
 
+/**
+ * Options for sync
+ */
+export interface SyncOptions {
+  /** Only dependencies the project declares itself (default: all locked) */
+  direct?: boolean;
+  /** Dependency name globs, e.g. "@ai-sdk/*" */
+  include?: string | string[];
+  exclude?: string | string[];
+  /** Report the plan without fetching */
+  dryRun?: boolean;
+}
+
+/**
+ * A locked dependency and what sync does with it:
+ * - fetched: the locked version is already fetched
+ * - mismatch: other versions are fetched; the locked one is fetched beside them
+ * - fetch: not fetched yet
+ * - unsupported: can't be fetched from its registry (see reason)
+ */
+export interface SyncEntry {
+  name: string;
+  version: string;
+  registry: "npm" | "pypi" | "crates";
+  lockfile: string;
+  direct: boolean;
+  status: "fetched" | "mismatch" | "fetch" | "unsupported";
+  /** Spec fetching the locked version */
+  spec?: string;
+  /** Source id of the locked version, once fetched */
+  source?: string;
+  /** Versions already fetched, for mismatches */
+  fetchedVersions?: string[];
+  reason?: string;
+  /** Why fetching failed */
+  error?: string;
+}
+
+/**
+ * Result of sync
+ */
+export interface SyncResult {
+  lockfiles: string[];
+  dependencies: SyncEntry[];
+  /** Sources fetched by this sync (0 for dry runs) */
+  fetched: number;
+  failed: number;
+}
+
+/**
+ * A fetched source compared with what the project uses:
+ * - current: a version the project locks (or the declared git ref)
+ * - outdated: the project locks other versions
+ * - unused: the project doesn't depend on it
+ * - ref-mismatch: a repo whose ref differs from the declared git dependency
+ * - local: a repo fetched from a local directory or repository, not declared as a git dependency
+ */
+export interface SourceStatus {
+  source: string;
+  type: Source["type"];
+  /** Fetched version or ref */
+  version: string;
+  status: "current" | "outdated" | "unused" | "ref-mismatch" | "local";
+  /** Versions locked by the project (ranges for unpinned requirements) */
+  locked?: string[];
+  /** Refs of the declared git dependencies */
+  declared?: string[];
+  /** Version or ref the source was refetched at */
+  refetched?: string;
+  /** Why refetching failed */
+  error?: string;
+}
+
+/**
+ * Result of status
+ */
+export interface StatusResult {
+  lockfiles: string[];
+  manifests: string[];
+  sources: SourceStatus[];
+  /** Sources refetched (0 without the refetch option) */
+  refetched: number;
+  failed: number;
+}
+
 /**
  * AST-grep search match
  */
 export interface AstGrepMatch {
+  source: string;
   file: string;
   line: number;
   column: number;
@@ -70,13 +343,242 @@ export interface AstGrepMatch {
   metavars: Record<string, string>;
 }
 
+/**
+ * AST-grep rule object (see https://ast-grep.github.io/reference/rule.html)
+ */
+export interface AstGrepRule {
+  pattern?: string | { context: string; selector?: string; strictness?: string };
+  kind?: string;
+  regex?: string;
+  nthChild?: number | string | { position: number | string; ofRule?: AstGrepRule; reverse?: boolean };
+  inside?: AstGrepRelation;
+  has?: AstGrepRelation;
+  precedes?: AstGrepRelation;
+  follows?: AstGrepRelation;
+  all?: AstGrepRule[];
+  any?: AstGrepRule[];
+  not?: AstGrepRule;
+  /** Name of a rule in AstGrepOptions.utils */
+  matches?: string;
+}
+
+/**
+ * Relational sub-rule (inside/has/precedes/follows)
+ */
+export interface AstGrepRelation extends AstGrepRule {
+  /** How far to search: direct neighbor only (default), to the end, or until a node matches */
+  stopBy?: "neighbor" | "end" | AstGrepRule;
+  /** Tree-sitter field of the parent node (has/inside only) */
+  field?: string;
+}
+
 /**
  * AST-grep search options
  */
 export interface AstGrepOptions {
+  /** Sources to search when no source is passed (default: all) */
+  sources?: string[];
   glob?: string;
   lang?: string | string[];
   limit?: number;
+  /** Rules metavariables must match, e.g. { NAME: { regex: "^use" } } */
+  constraints?: Record<string, AstGrepRule>;
+  /** Named utility rules referenced by `matches` */
+  utils?: Record<string, AstGrepRule>;
+}
+
+/**
+ * astRewrite options
+ */
+export interface AstRewriteOptions extends Omit<AstGrepOptions, "sources" | "limit"> {
+  /** Stop after this many changed files (default 20) */
+  maxFiles?: number;
+  /** Stop after this many edits across files (default 200) */
+  maxEdits?: number;
+  /** Context lines in diffs (default 3) */
+  context?: number;
+}
+
+/**
+ * Rewrite preview for one file
+ */
+export interface AstRewriteFile {
+  source: string;
+  file: string;
+  edits: number;
+  /** Unified diff of the rewrite */
+  diff: string;
+}
+
+/**
+ * Result of astRewrite (a preview; nothing is written)
+ */
+export interface AstRewriteResult {
+  files: AstRewriteFile[];
+  totalEdits: number;
+  /** More matches existed beyond maxFiles/maxEdits */
+  truncated: boolean;
+}
+
+/**
+ * diff options
+ */
+export interface DiffOptions {
+  /** Glob(s) of files to compare (default: all) */
+  glob?: string | string[];
+  /** Only the file summary, without unified diffs */
+  stat?: boolean;
+  /** Context lines in diffs (default 3) */
+  context?: number;
+}
+
+/**
+ * Change to one file between two sources
+ */
+export interface DiffFile {
+  /** Path in the second source (in the first for removed files) */
+  file: string;
+  status: "added" | "removed" | "modified" | "renamed";
+  /** Path in the first source, for renamed files */
+  oldFile?: string;
+  additions: number;
+  deletions: number;
+  /** Binary file; no line counts or diff */
+  binary?: boolean;
+  /** Unified diff; left out with `stat` or when it didn't fit the response */
+  diff?: string;
+}
+
+/**
+ * Result of diff
+ */
+export interface DiffResult {
+  files: DiffFile[];
+  additions: number;
+  deletions: number;
+  /** Some diffs were left out to keep the response within its size limit */
+  truncated: boolean;
+}
+
+/**
+ * Options for usages
+ */
+export interface UsagesOptions {
+  /** Only these exported names ("ZodError"; "z" also matches "z.object") */
+  symbols?: string[];
+}
+
+/**
+ * Where the project uses one exported symbol of a source
+ */
+export interface SymbolUsage {
+  /** Exported name; "z.object" for a member of an exported namespace */
+  name: string;
+  /** Module it is imported from, e.g. "zod/v4", "requests.adapters", "serde::de" */
+  module: string;
+  /** Declaration in the source, when found */
+  definition?: { file: string; line: number };
+  /** Project files and lines using it */
+  uses: { file: string; line: number; text: string }[];
+}
+
+/**
+ * Result of usages
+ */
+export interface UsagesResult {
+  source: string;
+  /** Module names the source is imported as, e.g. ["zod"], ["serde"] */
+  modules: string[];
+  /** Project statements importing the source */
+  imports: { file: string; line: number; module: string }[];
+  /** Most used first */
+  symbols: SymbolUsage[];
+}
+
+/**
+ * Kind of an outline symbol
+ */
+export type OutlineSymbolKind =
+  | "function"
+  | "method"
+  | "constructor"
+  | "class"
+  | "interface"
+  | "struct"
+  | "trait"
+  | "impl"
+  | "enum"
+  | "type"
+  | "module"
+  | "property"
+  | "variable"
+  | "constant"
+  | "macro";
+
+/**
+ * Symbol in a file outline
+ */
+export interface OutlineSymbol {
+  kind: OutlineSymbolKind;
+  name: string;
+  /** Declaration up to its body, whitespace collapsed */
+  signature: string;
+  /** Visible outside its file/type (export, pub, public, capitalized...) */
+  exported: boolean;
+  /** First line of the doc comment or docstring */
+  doc?: string;
+  line: number;
+  endLine: number;
+  children?: OutlineSymbol[];
+}
+
+/**
+ * Outline of one file (outlineMany)
+ */
+export interface FileOutline {
+  file: string;
+  symbols: OutlineSymbol[];
+}
+
+/**
+ * Declaration found in the symbol index
+ */
+export interface SymbolDefinition {
+  source: string;
+  file: string;
+  line: number;
+  endLine: number;
+  kind: OutlineSymbolKind;
+  name: string;
+  /** Enclosing class/module/impl */
+  container?: string;
+  signature: string;
+  exported: boolean;
+}
+
+/**
+ * How a reference uses a name
+ */
+export type ReferenceKind = "reference" | "call" | "type" | "import";
+
+/**
+ * Use of a name found in the symbol index
+ */
+export interface SymbolReference {
+  source: string;
+  file: string;
+  line: number;
+  kind: ReferenceKind;
+}
+
+/**
+ * Options for definition/references
+ */
+export interface SymbolQueryOptions {
+  /** Sources to search (default: all) */
+  sources?: string[];
+  /** Maximum results (default: definition 20, references 200) */
+  limit?: number;
 }
 
 /**
@@ -88,6 +590,73 @@ export interface TreeNode {
   children?: TreeNode[];
 }
 
+/**
+ * Console call captured from sandboxed code
+ */
+export interface ConsoleEntry {
+  level: "log" | "info" | "warn" | "error" | "debug";
+  message: string;
+}
+
+/**
+ * Type-check diagnostic for agent code (positions relative to the snippet)
+ */
+export interface TypeDiagnostic {
+  line: number;
+  column: number;
+  code: number;
+  message: string;
+}
+
+/**
+ * Diagnostic for an error raised while compiling or running agent code
+ */
+export interface ErrorDiagnostic {
+  kind: string;
+  message: string;
+  /** Position within the submitted code (1-based) */
+  line?: number;
+  column?: number;
+  /** Source lines around the failing position */
+  frame?: string;
+  /** The opensrc call that threw, e.g. `opensrc.read("zod", "src/x.ts")` */
+  call?: string;
+  suggestion?: string;
+  /** Tag and fields of a tagged API error (e.g. SourceNotFoundError) */
+  tag?: string;
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Per-execution resource budgets
+ */
+export interface ExecutionBudget {
+  /** Files read by read/readMany/grep/astGrep */
+  maxFiles: number;
+  /** Bytes read from disk */
+  maxBytes: number;
+  /** Cumulative time spent evaluating grep regexes */
+  maxRegexMs: number;
+  /** Packages/repos fetched */
+  maxFetches: number;
+  /** Serialized size of the value returned by agent code */
+  maxOutputChars: number;
+}
+
+/**
+ * Resource usage of one execution
+ */
+export interface UsageReport {
+  filesRead: number;
+  bytesRead: number;
+  matches: number;
+  fetches: number;
+  regexMs: number;
+  outputChars: number;
+  /** Calls and wall time per opensrc method */
+  ops: Record<string, { calls: number; ms: number }>;
+}
+
 /**
  * Executor result - uses Result for type-safe error handling
  */
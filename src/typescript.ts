@@ -0,0 +1,104 @@
+import ts from "typescript";
+import { blankSourceFile } from "ts-blank-space";
+import type { TypeDiagnostic } from "./types.js";
+import { TYPES } from "./declarations.js";
+
+// Virtual files for the in-memory type-check program
+const SNIPPET_FILE = "/__opensrc__/agent-code.ts";
+const DECLARATIONS_FILE = "/__opensrc__/opensrc.d.ts";
+
+// Sandbox globals not described in TYPES: the Result members worker.ts exposes
+const EXTRA_DECLARATIONS = `
+interface Ok<T> { readonly status: "ok"; readonly value: T; }
+interface Err<E> { readonly status: "error"; readonly error: E; }
+type Result<T, E = unknown> = Ok<T> | Err<E>;
+declare const Result: {
+  ok(): Ok<void>;
+  ok<T>(value: T): Ok<T>;
+  err<E>(error: E): Err<E>;
+  isOk<T, E>(result: Result<T, E>): result is Ok<T>;
+  isError<T, E>(result: Result<T, E>): result is Err<E>;
+};
+`;
+
+const COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2022,
+  lib: ["lib.es2022.d.ts"],
+  types: [],
+  noEmit: true,
+  strict: false,
+  skipLibCheck: true,
+};
+
+/**
+ * Strip TypeScript type syntax, replacing it with whitespace.
+ * Line and column positions are preserved, so errors map back to the original.
+ * Throws a SyntaxError for constructs that need a real transform (enums, namespaces).
+ */
+export function stripTypes(source: string): string {
+  const sourceFile = ts.createSourceFile(
+    "agent-code.ts",
+    source,
+    ts.ScriptTarget.ES2022,
+    true,
+    ts.ScriptKind.TS
+  );
+  const unsupported: ts.Node[] = [];
+  const output = blankSourceFile(sourceFile, (node) => unsupported.push(node));
+
+  if (unsupported.length > 0) {
+    const node = unsupported[0];
+    const { line, character } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+    throw new SyntaxError(
+      `Unsupported TypeScript syntax at ${line + 1}:${character + 1} (${ts.SyntaxKind[node.kind]}). ` +
+        "Enums, namespaces and parameter properties need plain JavaScript equivalents."
+    );
+  }
+
+  return output;
+}
+
+/**
+ * Type-check agent code against the declared sandbox API.
+ * Returns diagnostics with line/column relative to the submitted code.
+ */
+export function typeCheck(code: string): TypeDiagnostic[] {
+  // Same wrapping as the executor: "(" shifts line 1 by one column
+  const files = new Map([
+    [SNIPPET_FILE, `(${code})();`],
+    [DECLARATIONS_FILE, TYPES + EXTRA_DECLARATIONS],
+  ]);
+
+  const host = ts.createCompilerHost(COMPILER_OPTIONS);
+  const getSourceFile = host.getSourceFile;
+  const fileExists = host.fileExists;
+  const readFile = host.readFile;
+
+  host.getSourceFile = (fileName, languageVersion, ...rest) => {
+    const text = files.get(fileName);
+    return text !== undefined
+      ? ts.createSourceFile(fileName, text, languageVersion)
+      : getSourceFile.call(host, fileName, languageVersion, ...rest);
+  };
+  host.fileExists = (fileName) => files.has(fileName) || fileExists.call(host, fileName);
+  host.readFile = (fileName) => files.get(fileName) ?? readFile.call(host, fileName);
+
+  const program = ts.createProgram([...files.keys()], COMPILER_OPTIONS, host);
+  const sourceFile = program.getSourceFile(SNIPPET_FILE);
+  if (!sourceFile) return [];
+
+  const diagnostics = [
+    ...program.getSyntacticDiagnostics(sourceFile),
+    ...program.getSemanticDiagnostics(sourceFile),
+  ];
+
+  return diagnostics.map((d) => {
+    const { line, character } = sourceFile.getLineAndCharacterOfPosition(d.start ?? 0);
+    return {
+      line: line + 1,
+      column: line === 0 ? Math.max(character, 1) : character + 1,
+      code: d.code,
+      message: ts.flattenDiagnosticMessageText(d.messageText, "\n"),
+    };
+  });
+}
@@ -0,0 +1,303 @@
+import { parentPort, workerData } from "node:worker_threads";
+import { createContext, runInContext, Script, type Context } from "node:vm";
+import { format } from "node:util";
+import { Result, TaggedError } from "better-result";
+import type {
+  ConsoleEntry,
+  ErrorDiagnostic,
+  ExecutionBudget,
+  Source,
+  UsageReport,
+} from "./types.js";
+import { createOpensrcAPI } from "./api/opensrc.js";
+import { createProjectAPI } from "./api/project.js";
+import { createStateAPI, type StateChange, type StoredEntry } from "./state.js";
+import { TypeCheckError } from "./errors.js";
+import { AGENT_FILENAME, diagnoseError, trackCalls } from "./diagnostics.js";
+import { createUsageTracker } from "./budget.js";
+
+/**
+ * Data passed to the worker when an execution starts
+ */
+export interface WorkerData {
+  code: string;
+  cwd: string;
+  sources: Source[];
+  state: Record<string, StoredEntry>;
+  timeoutMs: number;
+  typecheck: boolean;
+  budget: ExecutionBudget;
+}
+
+/**
+ * Serialized error posted back to the main thread
+ */
+export interface SerializedError {
+  name: string;
+  message: string;
+  code?: string;
+  stack?: string;
+  /** TaggedError tag and fields, when the thrown value was a TaggedError */
+  tag?: string;
+  data?: Record<string, unknown>;
+  /** Location, code frame and suggestion for errors raised by agent code */
+  diagnostic?: ErrorDiagnostic;
+}
+
+/**
+ * Messages posted from the worker to the main thread
+ */
+export type WorkerMessage =
+  | { type: "sources"; sources: Source[] }
+  | { type: "console"; entry: ConsoleEntry }
+  | { type: "state"; change: StateChange }
+  | { type: "usage"; usage: UsageReport }
+  | ResultMessage;
+
+type ResultMessage =
+  | { type: "result"; ok: true; value: unknown }
+  | { type: "result"; ok: false; error: SerializedError };
+
+/**
+ * Deep freeze an object to prevent modification
+ */
+function deepFreeze<T>(obj: T): T {
+  if (obj === null || typeof obj !== "object") return obj;
+
+  Object.getOwnPropertyNames(obj).forEach((prop) => {
+    const value = (obj as Record<string, unknown>)[prop];
+    if (value && typeof value === "object") {
+      deepFreeze(value);
+    }
+  });
+
+  return Object.freeze(obj);
+}
+
+/**
+ * Code to freeze built-in prototypes in the VM context.
+ * Prevents prototype pollution attacks from persisting across requests.
+ */
+const PROTOTYPE_FREEZE_CODE = `
+  Object.freeze(Object.prototype);
+  Object.freeze(Array.prototype);
+  Object.freeze(String.prototype);
+  Object.freeze(Number.prototype);
+  Object.freeze(Boolean.prototype);
+  Object.freeze(Function.prototype);
+`;
+
+/**
+ * Convert the agent's return value to plain data.
+ * Mirrors what truncate() would serialize, so nothing is lost crossing threads.
+ * The serialized size is reported through onSize before parsing.
+ */
+function toPlainData(value: unknown, onSize: (chars: number) => void = () => {}): unknown {
+  const json = JSON.stringify(value);
+  if (json === undefined) return undefined;
+  onSize(json.length);
+  return JSON.parse(json);
+}
+
+/**
+ * Serialize a thrown value for postMessage
+ */
+function serializeError(cause: unknown): SerializedError {
+  if (TaggedError.is(cause)) {
+    const { _tag, name, message, stack, cause: _cause, ...data } = cause.toJSON() as Record<
+      string,
+      unknown
+    >;
+    return {
+      name: cause.name,
+      message: cause.message,
+      ...(cause.stack ? { stack: cause.stack } : {}),
+      tag: cause._tag,
+      data: toPlainData(data) as Record<string, unknown>,
+    };
+  }
+  if (cause instanceof Error || (cause && typeof cause === "object" && "message" in cause)) {
+    const err = cause as Error & { code?: unknown };
+    return {
+      name: String(err.name ?? "Error"),
+      message: String(err.message),
+      ...(typeof err.code === "string" ? { code: err.code } : {}),
+      ...(err.stack ? { stack: String(err.stack) } : {}),
+    };
+  }
+  return { name: "Error", message: String(cause) };
+}
+
+function post(message: WorkerMessage): void {
+  parentPort?.postMessage(message);
+}
+
+// Cap on captured console output per execution (~2000 tokens)
+const MAX_CONSOLE_CHARS = 8000;
+
+/**
+ * Create a console that streams entries to the main thread.
+ * Entries are posted as they happen so output survives a timeout or OOM kill.
+ */
+function createCapturedConsole() {
+  let usedChars = 0;
+  let truncated = false;
+
+  const capture = (level: ConsoleEntry["level"]) => (...args: unknown[]) => {
+    if (truncated) return;
+
+    let message = format(...args);
+    if (usedChars + message.length > MAX_CONSOLE_CHARS) {
+      truncated = true;
+      message = `${message.slice(0, MAX_CONSOLE_CHARS - usedChars)}\n--- CONSOLE OUTPUT TRUNCATED (limit: ${MAX_CONSOLE_CHARS.toLocaleString()} chars) ---`;
+    }
+    usedChars += message.length;
+    post({ type: "console", entry: { level, message } });
+  };
+
+  return Object.freeze({
+    log: capture("log"),
+    info: capture("info"),
+    warn: capture("warn"),
+    error: capture("error"),
+    debug: capture("debug"),
+  });
+}
+
+/**
+ * Compile agent code. Plain JavaScript compiles directly; on a syntax error
+ * the code is retried as TypeScript with types blanked out (positions preserved).
+ * The TypeScript toolchain is only loaded when needed.
+ */
+async function compile(code: string): Promise<Script> {
+  const options = { filename: AGENT_FILENAME };
+  try {
+    return new Script(`(${code})()`, options);
+  } catch (err) {
+    if (!(err instanceof SyntaxError)) throw err;
+
+    const { stripTypes } = await import("./typescript.js");
+    const stripped = stripTypes(code);
+    if (stripped === code) throw err;
+    return new Script(`(${stripped})()`, options);
+  }
+}
+
+/**
+ * Run agent code inside an isolated VM context.
+ * The worker owns the whole execution (API calls included), so terminating
+ * it from the main thread stops any in-flight work.
+ */
+async function run(data: WorkerData): Promise<ResultMessage> {
+  const { code, cwd, timeoutMs, typecheck, budget } = data;
+  let sources = data.sources;
+
+  // Usage is streamed after every API call so it survives a kill
+  const usage = createUsageTracker(budget, (report) => post({ type: "usage", usage: report }));
+
+  // Mutations are mirrored to the main thread, which owns the source list.
+  // Calls are tracked so errors can name the opensrc call that raised them.
+  const tracked = trackCalls(
+    usage.instrument(
+      createOpensrcAPI(
+        () => sources,
+        (newSources) => {
+          sources = newSources;
+          post({ type: "sources", sources: newSources });
+        },
+        usage,
+        cwd
+      )
+    )
+  );
+
+  // The user's project is exposed read-only, separately from sources
+  const project = trackCalls(usage.instrument(createProjectAPI(cwd, usage), "project."), "project");
+
+  // Session state survives across executions via the main thread
+  const state = createStateAPI(data.state, (change) => post({ type: "state", change }));
+
+  // Build frozen context with injected API
+  const frozenContext = deepFreeze({
+    opensrc: tracked.api,
+    project: project.api,
+    state,
+    sources,
+    cwd,
+  });
+
+  // Create isolated context with minimal safe globals
+  const context: Context = createContext({
+    ...frozenContext,
+    // Minimal safe globals
+    console: createCapturedConsole(),
+    JSON: Object.freeze({ parse: JSON.parse, stringify: JSON.stringify }),
+    Object: Object.freeze({
+      keys: Object.keys,
+      values: Object.values,
+      entries: Object.entries,
+      fromEntries: Object.fromEntries,
+      freeze: Object.freeze,
+    }),
+    Array: Object.freeze({ isArray: Array.isArray }),
+    Promise: Promise,
+    // Expose Result for agent code to work with Result values
+    Result: Object.freeze({
+      ok: Result.ok,
+      err: Result.err,
+      isOk: Result.isOk,
+      isError: Result.isError,
+    }),
+    // Block dangerous globals
+    setTimeout: undefined,
+    setInterval: undefined,
+    setImmediate: undefined,
+    fetch: undefined,
+    require: undefined,
+    process: undefined,
+    global: undefined,
+    globalThis: undefined,
+  });
+
+  // Freeze built-in prototypes to prevent pollution
+  runInContext(PROTOTYPE_FREEZE_CODE, context);
+
+  try {
+    // Report API misuse before anything runs
+    if (typecheck) {
+      const { typeCheck } = await import("./typescript.js");
+      const diagnostics = typeCheck(code);
+      if (diagnostics.length > 0) {
+        throw new TypeCheckError(diagnostics);
+      }
+    }
+
+    const script = await compile(code);
+
+    // The vm timeout only bounds the synchronous part; the main thread
+    // enforces the overall deadline by terminating this worker.
+    const value = await script.runInContext(context, { timeout: timeoutMs });
+    const plain = toPlainData(value, usage.chargeOutput);
+    post({ type: "usage", usage: usage.report() });
+    return { type: "result", ok: true, value: plain };
+  } catch (cause) {
+    post({ type: "usage", usage: usage.report() });
+    const error = serializeError(cause);
+    if (TypeCheckError.is(cause)) {
+      return { type: "result", ok: false, error };
+    }
+
+    const diagnostic = diagnoseError(cause, code, {
+      sourceNames: sources.map((s) => s.id),
+      apiMethods: Object.keys(tracked.api),
+      call: tracked.callFor(cause) ?? project.callFor(cause),
+      tag: error.tag,
+      data: error.data,
+    });
+    return { type: "result", ok: false, error: { ...error, diagnostic } };
+  }
+}
+
+run(workerData as WorkerData).then(post, (cause) =>
+  post({ type: "result", ok: false, error: serializeError(cause) })
+);